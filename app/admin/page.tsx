@@ -0,0 +1,473 @@
+/* eslint-disable @next/next/no-img-element */
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useRef, useState } from 'react';
+import type { Product } from '@/lib/catalog';
+import { productThumbnailUrl } from '@/lib/catalog';
+import type { CatalogSummary } from '@/lib/catalogs';
+import { DEFAULT_CATALOG } from '@/lib/catalogs';
+
+interface ProductForm {
+  name: string;
+  category: string;
+  price: string;
+  tags: string;
+  description: string;
+  imageUrl: string;
+}
+
+const EMPTY_FORM: ProductForm = { name: '', category: '', price: '', tags: '', description: '', imageUrl: '' };
+
+const formFromProduct = (product: Product): ProductForm => ({
+  name: product.name,
+  category: product.category,
+  price: String(product.price),
+  tags: product.tags.join(', '),
+  description: product.description,
+  imageUrl: '',
+});
+
+const readError = async (response: Response) => {
+  const body = (await response.json().catch(() => null)) as { error?: string } | null;
+  return body?.error ?? `Request failed with status ${response.status}`;
+};
+
+// Admin API path scoped to one catalog.
+const catalogApi = (path: string, catalogName: string, params: Record<string, string> = {}) =>
+  `/api/catalog/${path}?${new URLSearchParams({ catalog: catalogName, ...params })}`;
+
+const inputClass =
+  'mt-2 w-full rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-indigo-300';
+const labelClass = 'block text-xs font-semibold uppercase tracking-[0.25em] text-indigo-100/80';
+
+export default function CatalogAdmin() {
+  const [catalogName, setCatalogName] = useState(DEFAULT_CATALOG);
+  const [catalogs, setCatalogs] = useState<CatalogSummary[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loadingList, setLoadingList] = useState(true);
+  // Kept in memory only; needed when the server sets CATALOG_ADMIN_TOKEN.
+  const [token, setToken] = useState('');
+  // null while creating a new product.
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<ProductForm>(EMPTY_FORM);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const authHeaders = (): HeadersInit => (token ? { Authorization: `Bearer ${token}` } : {});
+
+  const loadProducts = async (name: string) => {
+    setLoadingList(true);
+    try {
+      const response = await fetch(catalogApi('products', name), { cache: 'no-store' });
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+      setProducts(((await response.json()) as { products: Product[] }).products);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the catalog');
+    } finally {
+      setLoadingList(false);
+    }
+  };
+
+  const loadCatalogs = async () => {
+    try {
+      const response = await fetch('/api/catalogs', { cache: 'no-store' });
+      if (response.ok) {
+        setCatalogs(((await response.json()) as { catalogs: CatalogSummary[] }).catalogs);
+      }
+    } catch (err) {
+      console.warn('Catalog list unavailable', err);
+    }
+  };
+
+  useEffect(() => {
+    loadCatalogs();
+    loadProducts(DEFAULT_CATALOG);
+  }, []);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setImageFile(null);
+    if (imageInputRef.current) imageInputRef.current.value = '';
+  };
+
+  const switchCatalog = (name: string) => {
+    setCatalogName(name);
+    setProducts([]);
+    resetForm();
+    setNotice(null);
+    setError(null);
+    loadProducts(name);
+  };
+
+  const startEditing = (product: Product) => {
+    setEditingId(product.id);
+    setForm(formFromProduct(product));
+    setImageFile(null);
+    setNotice(null);
+    setError(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Runs one admin request, reporting failures and reloading the list after a success.
+  const runAction = async (action: () => Promise<Response>, success: (response: Response) => Promise<string>) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await action();
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+      setNotice(await success(response));
+      // Product counts in the catalog selector change with creates, deletes and imports.
+      await Promise.all([loadProducts(catalogName), loadCatalogs()]);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return false;
+    }
+  };
+
+  const saveProduct = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const body = new FormData();
+    for (const [key, value] of Object.entries(form)) {
+      // An empty image URL means "keep the current image"; other fields are sent as-is so they can be cleared.
+      if (key !== 'imageUrl' || value.trim() !== '') {
+        body.set(key, value);
+      }
+    }
+    if (imageFile) {
+      body.set('image', imageFile);
+    }
+
+    setSaving(true);
+    const saved = await runAction(
+      () =>
+        fetch(catalogApi(editingId === null ? 'products' : `products/${editingId}`, catalogName), {
+          method: editingId === null ? 'POST' : 'PUT',
+          headers: authHeaders(),
+          body,
+        }),
+      async (response) => {
+        const { product } = (await response.json()) as { product: Product };
+        return `${editingId === null ? 'Added' : 'Saved'} #${product.id} ${product.name}`;
+      },
+    );
+    setSaving(false);
+    if (saved) {
+      resetForm();
+    }
+  };
+
+  const reembed = async (product: Product) => {
+    setBusyId(product.id);
+    await runAction(
+      () =>
+        fetch(catalogApi(`products/${product.id}/embed`, catalogName), { method: 'POST', headers: authHeaders() }),
+      async () => `Re-embedded #${product.id} ${product.name}`,
+    );
+    setBusyId(null);
+  };
+
+  const remove = async (product: Product) => {
+    if (!window.confirm(`Delete #${product.id} ${product.name}?`)) {
+      return;
+    }
+    setBusyId(product.id);
+    await runAction(
+      () => fetch(catalogApi(`products/${product.id}`, catalogName), { method: 'DELETE', headers: authHeaders() }),
+      async () => `Deleted #${product.id} ${product.name}`,
+    );
+    setBusyId(null);
+    if (editingId === product.id) {
+      resetForm();
+    }
+  };
+
+  const importFile = async (file: File) => {
+    const body = new FormData();
+    body.set('file', file);
+    body.set('mode', importMode);
+    await runAction(
+      () => fetch(catalogApi('import', catalogName), { method: 'POST', headers: authHeaders(), body }),
+      async (response) => {
+        const result = (await response.json()) as { created: number; updated: number; failures: string[] };
+        const summary = `Imported ${file.name}: ${result.created} added, ${result.updated} updated`;
+        return result.failures.length === 0
+          ? summary
+          : `${summary}, ${result.failures.length} skipped:\n${result.failures.join('\n')}`;
+      },
+    );
+    if (importInputRef.current) importInputRef.current.value = '';
+  };
+
+  const field = (key: keyof ProductForm) => ({
+    value: form[key],
+    onChange: (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm((current) => ({ ...current, [key]: event.target.value })),
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <header className="border-b border-white/10 bg-slate-950/80 backdrop-blur">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-5">
+          <div>
+            <p className="text-sm uppercase tracking-[0.28em] text-indigo-200/80">Visual Search Studio</p>
+            <h1 className="text-xl font-semibold text-white">Catalogue admin</h1>
+          </div>
+          <Link href="/" className="text-xs font-semibold text-indigo-100 hover:text-white">
+            ← Back to matcher
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-6xl px-6 py-10">
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,1.1fr)_minmax(0,0.9fr)]">
+          <form
+            onSubmit={saveProduct}
+            className="space-y-4 rounded-3xl border border-white/10 bg-slate-900/60 p-6 sm:p-8"
+          >
+            <h2 className="text-lg font-semibold text-white">
+              {editingId === null ? 'Add a product' : `Edit product #${editingId}`}
+            </h2>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className={labelClass}>
+                Name
+                <input required className={inputClass} {...field('name')} />
+              </label>
+              <label className={labelClass}>
+                Category
+                <input required className={inputClass} {...field('category')} />
+              </label>
+              <label className={labelClass}>
+                Price
+                <input required type="number" min="0" step="0.01" className={inputClass} {...field('price')} />
+              </label>
+              <label className={labelClass}>
+                Tags
+                <input placeholder="comma, separated" className={inputClass} {...field('tags')} />
+              </label>
+            </div>
+            <label className={labelClass}>
+              Description
+              <textarea required rows={3} className={inputClass} {...field('description')} />
+            </label>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className={labelClass}>
+                Image URL
+                <input type="url" placeholder="https://" className={inputClass} {...field('imageUrl')} />
+              </label>
+              <label className={labelClass}>
+                Or upload
+                <input
+                  ref={imageInputRef}
+                  type="file"
+                  accept="image/png,image/jpeg"
+                  onChange={(event) => setImageFile(event.target.files?.[0] ?? null)}
+                  className="mt-2 block w-full text-xs text-indigo-100 file:mr-3 file:rounded-full file:border-0 file:bg-white/20 file:px-3 file:py-1.5 file:text-xs file:font-semibold file:text-white"
+                />
+              </label>
+            </div>
+            <p className="text-xs text-indigo-100/60">
+              PNG or JPEG. The image is embedded with the matcher&apos;s extractors when saved
+              {editingId === null ? '.' : '; leave both empty to keep the current image and vectors.'}
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-full bg-indigo-400 px-5 py-2 text-sm font-semibold text-slate-900 transition hover:bg-indigo-300 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {saving ? 'Embedding…' : editingId === null ? 'Add product' : 'Save changes'}
+              </button>
+              {editingId !== null && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="rounded-full border border-white/15 px-5 py-2 text-sm font-semibold text-white transition hover:border-white/40"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+
+          <div className="space-y-6">
+            <section className="space-y-4 rounded-3xl border border-white/10 bg-slate-900/60 p-6">
+              <label className={labelClass}>
+                Catalogue
+                <select
+                  value={catalogName}
+                  onChange={(event) => switchCatalog(event.target.value)}
+                  className="mt-2 w-full rounded-xl border border-white/10 bg-slate-900 px-4 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                >
+                  {catalogs.length === 0 && <option value={catalogName}>{catalogName}</option>}
+                  {catalogs.map((entry) => (
+                    <option key={entry.name} value={entry.name}>
+                      {entry.title} · {entry.productCount} products
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className={labelClass}>
+                Admin token
+                <input
+                  type="password"
+                  value={token}
+                  onChange={(event) => setToken(event.target.value)}
+                  placeholder="Not needed in development"
+                  className={inputClass}
+                />
+              </label>
+            </section>
+
+            <section className="space-y-4 rounded-3xl border border-white/10 bg-slate-900/60 p-6">
+              <h2 className="text-lg font-semibold text-white">Import &amp; export</h2>
+              <div className="flex flex-wrap gap-3">
+                <a
+                  href={catalogApi('export', catalogName, { format: 'json' })}
+                  className="rounded-full border border-white/15 px-4 py-2 text-xs font-semibold text-white transition hover:border-white/40"
+                >
+                  Export JSON
+                </a>
+                <a
+                  href={catalogApi('export', catalogName, { format: 'csv' })}
+                  className="rounded-full border border-white/15 px-4 py-2 text-xs font-semibold text-white transition hover:border-white/40"
+                >
+                  Export CSV
+                </a>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={importMode}
+                  onChange={(event) => setImportMode(event.target.value as 'merge' | 'replace')}
+                  className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1.5 text-xs text-white focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                >
+                  <option value="merge">Merge by id</option>
+                  <option value="replace">Replace catalogue</option>
+                </select>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    if (file) importFile(file);
+                  }}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => importInputRef.current?.click()}
+                  className="rounded-full bg-white/20 px-4 py-2 text-xs font-semibold text-white transition hover:bg-white/30"
+                >
+                  Import CSV or JSON
+                </button>
+              </div>
+              <p className="text-xs text-indigo-100/60">
+                CSV columns: id, name, category, price, tags (separated by ;), description, image. Rows without
+                vectors are embedded from their image.
+              </p>
+            </section>
+          </div>
+        </div>
+
+        {notice && (
+          <p
+            className="mt-6 whitespace-pre-line rounded-2xl border border-emerald-400/50 bg-emerald-500/10 p-3 text-xs text-emerald-100"
+            role="status"
+          >
+            {notice}
+          </p>
+        )}
+        {error && (
+          <p
+            className="mt-6 whitespace-pre-line rounded-2xl border border-red-400/60 bg-red-500/10 p-3 text-xs text-red-200"
+            role="alert"
+          >
+            {error}
+          </p>
+        )}
+
+        <section className="mt-10 overflow-x-auto rounded-3xl border border-white/10 bg-slate-900/50">
+          <table className="w-full text-left text-sm text-slate-200/90">
+            <thead className="text-xs uppercase tracking-[0.2em] text-indigo-100/60">
+              <tr>
+                <th className="px-4 py-3 font-semibold">Product</th>
+                <th className="px-4 py-3 font-semibold">Category</th>
+                <th className="px-4 py-3 font-semibold">Price</th>
+                <th className="px-4 py-3 font-semibold">Vectors</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {products.map((product) => (
+                <tr key={product.id} className="border-t border-white/5">
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-3">
+                      <img
+                        src={productThumbnailUrl(product.image, 96)}
+                        alt=""
+                        className="h-12 w-12 rounded-lg bg-white/5 object-cover"
+                      />
+                      <div>
+                        <p className="font-semibold text-white">{product.name}</p>
+                        <p className="text-xs text-slate-400">
+                          #{product.id} · {product.tags.join(', ')}
+                        </p>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">{product.category}</td>
+                  <td className="px-4 py-3">${product.price}</td>
+                  <td className="px-4 py-3 text-xs text-slate-400">{Object.keys(product.embeddings).join(', ')}</td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-2 text-xs">
+                      <button
+                        type="button"
+                        onClick={() => startEditing(product)}
+                        className="rounded-full border border-white/15 px-3 py-1 font-semibold text-white transition hover:border-white/40"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => reembed(product)}
+                        disabled={busyId === product.id}
+                        className="rounded-full border border-white/15 px-3 py-1 font-semibold text-white transition hover:border-white/40 disabled:opacity-50"
+                      >
+                        Re-embed
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => remove(product)}
+                        disabled={busyId === product.id}
+                        className="rounded-full border border-red-300/50 px-3 py-1 font-semibold text-red-100 transition hover:border-red-200 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {loadingList && products.length === 0 && (
+            <p className="px-4 py-10 text-center text-sm text-slate-400">Loading catalogue…</p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
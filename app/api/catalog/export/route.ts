@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { catalogErrorResponse, requestCatalog } from '@/lib/catalogAdmin';
+import { readCatalog } from '@/lib/catalogStore';
+import { catalogToCsv, catalogToJson } from '@/lib/catalogTransfer';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// `?format=csv` exports the editable fields only; JSON (the default) includes vectors and re-imports losslessly.
+export async function GET(request: Request) {
+  const format = new URL(request.url).searchParams.get('format') ?? 'json';
+  if (format !== 'json' && format !== 'csv') {
+    return NextResponse.json({ error: 'format must be "json" or "csv"' }, { status: 400 });
+  }
+  try {
+    const catalog = await requestCatalog(request);
+    const products = await readCatalog(catalog);
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(format === 'csv' ? catalogToCsv(products) : catalogToJson(products), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${catalog.name}-${date}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return catalogErrorResponse(error);
+  }
+}
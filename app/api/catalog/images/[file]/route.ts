@@ -0,0 +1,35 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { NextResponse } from 'next/server';
+import { UPLOAD_DIR } from '@/lib/catalogStore';
+import { IMAGE_MIME_TYPES, detectImageType } from '@/lib/imageType';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Content-hashed names written by the catalog store; anything else is rejected before touching the disk.
+const FILE_NAME = /^[a-f0-9]{24}\.(png|jpg)$/;
+
+export async function GET(_request: Request, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params;
+  if (!FILE_NAME.test(file)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = await readFile(path.join(UPLOAD_DIR, file));
+  } catch {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const type = detectImageType(bytes);
+  return new NextResponse(Buffer.from(bytes), {
+    headers: {
+      'Content-Type': type ? IMAGE_MIME_TYPES[type] : 'application/octet-stream',
+      // The name is derived from the content, so it never changes.
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { authorizeCatalogAdmin, catalogErrorResponse, requestCatalog } from '@/lib/catalogAdmin';
+import type { CatalogImportMode } from '@/lib/catalogStore';
+import { CatalogStoreError, importCatalog } from '@/lib/catalogStore';
+import { parseCatalogCsv, parseCatalogJson } from '@/lib/catalogTransfer';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Accepts a multipart `file` field, or the document as the raw body with a text/csv or application/json content
+// type. `mode` (form field or query parameter) is `merge` (default) or `replace`.
+const readImport = async (request: Request) => {
+  const contentType = request.headers.get('content-type') ?? '';
+  const query = new URL(request.url).searchParams;
+
+  if (contentType.includes('multipart/form-data')) {
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      throw new CatalogStoreError('Multipart imports need a "file" field');
+    }
+    const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type.includes('csv');
+    return { text: await file.text(), isCsv, mode: form.get('mode') ?? query.get('mode') };
+  }
+  return { text: await request.text(), isCsv: contentType.includes('csv'), mode: query.get('mode') };
+};
+
+export async function POST(request: Request) {
+  const denied = authorizeCatalogAdmin(request);
+  if (denied) {
+    return denied;
+  }
+  try {
+    const catalog = await requestCatalog(request);
+    const { text, isCsv, mode } = await readImport(request);
+    if (mode !== null && mode !== 'merge' && mode !== 'replace') {
+      throw new CatalogStoreError('mode must be "merge" or "replace"');
+    }
+
+    let entries;
+    try {
+      entries = isCsv ? parseCatalogCsv(text) : parseCatalogJson(JSON.parse(text));
+    } catch (error) {
+      throw new CatalogStoreError(error instanceof Error ? error.message : 'Import could not be parsed');
+    }
+    if (entries.length === 0) {
+      throw new CatalogStoreError('Import contains no products');
+    }
+
+    return NextResponse.json(await importCatalog(catalog, entries, (mode ?? 'merge') as CatalogImportMode));
+  } catch (error) {
+    return catalogErrorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { authorizeCatalogAdmin, catalogErrorResponse, parseProductId, requestCatalog } from '@/lib/catalogAdmin';
+import { reembedProduct } from '@/lib/catalogStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Recomputes the product's vectors from its current image.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = authorizeCatalogAdmin(request);
+  if (denied) {
+    return denied;
+  }
+  try {
+    const id = parseProductId((await params).id);
+    return NextResponse.json({ product: await reembedProduct(await requestCatalog(request), id) });
+  } catch (error) {
+    return catalogErrorResponse(error);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import {
+  authorizeCatalogAdmin,
+  catalogErrorResponse,
+  parseProductId,
+  parseProductPayload,
+  requestCatalog,
+} from '@/lib/catalogAdmin';
+import { CatalogStoreError, deleteProduct, readCatalog, updateProduct } from '@/lib/catalogStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const id = parseProductId((await params).id);
+    const product = (await readCatalog(await requestCatalog(request))).find((entry) => entry.id === id);
+    if (!product) {
+      throw new CatalogStoreError(`Product #${id} does not exist`, 404);
+    }
+    return NextResponse.json({ product });
+  } catch (error) {
+    return catalogErrorResponse(error);
+  }
+}
+
+// Partial update; a new image (upload or imageUrl) replaces the vectors as well.
+export async function PUT(request: Request, { params }: RouteContext) {
+  const denied = authorizeCatalogAdmin(request);
+  if (denied) {
+    return denied;
+  }
+  try {
+    const id = parseProductId((await params).id);
+    const catalog = await requestCatalog(request);
+    const { fields, source } = await parseProductPayload(request);
+    return NextResponse.json({ product: await updateProduct(catalog, id, fields, source) });
+  } catch (error) {
+    return catalogErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = authorizeCatalogAdmin(request);
+  if (denied) {
+    return denied;
+  }
+  try {
+    await deleteProduct(await requestCatalog(request), parseProductId((await params).id));
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return catalogErrorResponse(error);
+  }
+}
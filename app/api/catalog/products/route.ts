@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { authorizeCatalogAdmin, catalogErrorResponse, parseProductPayload, requestCatalog } from '@/lib/catalogAdmin';
+import type { ProductFields } from '@/lib/catalogStore';
+import { CatalogStoreError, createProduct, readCatalog } from '@/lib/catalogStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    return NextResponse.json({ products: await readCatalog(await requestCatalog(request)) });
+  } catch (error) {
+    return catalogErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  const denied = authorizeCatalogAdmin(request);
+  if (denied) {
+    return denied;
+  }
+  try {
+    const catalog = await requestCatalog(request);
+    const { fields, source } = await parseProductPayload(request);
+    if (!source) {
+      throw new CatalogStoreError('Provide an image file or an imageUrl; new products are embedded from it');
+    }
+    // Missing fields fall through to catalog validation, which names each one.
+    const product = await createProduct(catalog, fields as ProductFields, source);
+    return NextResponse.json({ product }, { status: 201 });
+  } catch (error) {
+    return catalogErrorResponse(error);
+  }
+}
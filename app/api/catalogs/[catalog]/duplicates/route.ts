@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { authorizeCatalogAdmin } from '@/lib/catalogAdmin';
+import { analyzeCatalogDuplicates, cachedCatalogDuplicates } from '@/lib/catalogDuplicates';
+import { resolveCatalog, UnknownCatalogError } from '@/lib/catalogRegistry';
+import { readCatalog } from '@/lib/catalogStore';
+import { DEFAULT_DUPLICATE_OPTIONS } from '@/lib/duplicates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+class DuplicateRequestError extends Error {}
+
+const parseNumber = (raw: string | null, fallback: number, min: number, max: number, label: string) => {
+  if (raw === null || raw === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new DuplicateRequestError(`${label} must be a number between ${min} and ${max}`);
+  }
+  return value;
+};
+
+const OPTION_PARAMS = ['minSimilarity', 'maxHashDistance', 'hashes'];
+
+// Suspected duplicate clusters. Without options the cached default report is served to anyone; custom thresholds or
+// `hashes=false` run a fresh analysis and need the catalog admin token.
+export async function GET(request: Request, { params }: { params: Promise<{ catalog: string }> }) {
+  try {
+    const query = new URL(request.url).searchParams;
+    const catalog = await resolveCatalog((await params).catalog);
+    const products = await readCatalog(catalog);
+
+    if (!OPTION_PARAMS.some((name) => query.has(name))) {
+      return NextResponse.json({ catalog: catalog.name, ...(await cachedCatalogDuplicates(catalog.name, products)) });
+    }
+    const denied = authorizeCatalogAdmin(request);
+    if (denied) {
+      return denied;
+    }
+    const options = {
+      minSimilarity: parseNumber(
+        query.get('minSimilarity'),
+        DEFAULT_DUPLICATE_OPTIONS.minSimilarity,
+        0,
+        100,
+        'minSimilarity',
+      ),
+      maxHashDistance: parseNumber(
+        query.get('maxHashDistance'),
+        DEFAULT_DUPLICATE_OPTIONS.maxHashDistance,
+        0,
+        64,
+        'maxHashDistance',
+      ),
+      hashes: query.get('hashes') !== 'false' && query.get('hashes') !== '0',
+    };
+    const report = await analyzeCatalogDuplicates(products, options);
+    return NextResponse.json({ catalog: catalog.name, ...report });
+  } catch (error) {
+    if (error instanceof DuplicateRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof UnknownCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Duplicate analysis failed', error);
+    return NextResponse.json({ error: 'Unable to analyze catalog' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { catalogFileResponse, resolveCatalog, UnknownCatalogError } from '@/lib/catalogRegistry';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// The catalog's approximate index; 404 when none has been built, and the browser ranks with a full scan instead.
+export async function GET(request: Request, { params }: { params: Promise<{ catalog: string }> }) {
+  try {
+    const { indexPath } = await resolveCatalog((await params).catalog);
+    return await catalogFileResponse(request, indexPath);
+  } catch (error) {
+    if (error instanceof UnknownCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Serving catalog index failed', error);
+    return NextResponse.json({ error: 'Unable to read catalog index' }, { status: 500 });
+  }
+}
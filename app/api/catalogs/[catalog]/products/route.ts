@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { catalogFileResponse, resolveCatalog, UnknownCatalogError } from '@/lib/catalogRegistry';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// The catalog's products file as stored, in the same shape as public/products.json.
+export async function GET(request: Request, { params }: { params: Promise<{ catalog: string }> }) {
+  try {
+    const { productsPath } = await resolveCatalog((await params).catalog);
+    return await catalogFileResponse(request, productsPath);
+  } catch (error) {
+    if (error instanceof UnknownCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Serving catalog failed', error);
+    return NextResponse.json({ error: 'Unable to read catalog' }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { listCatalogs } from '@/lib/catalogRegistry';
+import { DEFAULT_CATALOG } from '@/lib/catalogs';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ default: DEFAULT_CATALOG, catalogs: await listCatalogs() });
+  } catch (error) {
+    console.error('Listing catalogs failed', error);
+    return NextResponse.json({ error: 'Unable to list catalogs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+// The route is only reachable through the default guard, so the stub proves loopback upstreams are refused.
+const server = http.createServer((_request, response) => {
+  response.writeHead(200, { 'Content-Type': 'image/png' }).end('not a png');
+});
+
+let cacheDir: string;
+let GET: (request: Request) => Promise<Response>;
+
+const proxy = (query: string) => GET(new Request(`http://localhost/api/image-proxy?${query}`));
+
+describe('GET /api/image-proxy', () => {
+  before(async () => {
+    cacheDir = await mkdtemp(path.join(tmpdir(), 'image-proxy-'));
+    process.env.IMAGE_CACHE_DIR = cacheDir;
+    ({ GET } = await import('./route'));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('requires a url', async () => {
+    const response = await proxy('');
+    assert.equal(response.status, 400);
+  });
+
+  it('validates thumbnail parameters before fetching', async () => {
+    const response = await proxy(`url=${encodeURIComponent('https://example.com/a.png')}&w=0`);
+    assert.equal(response.status, 400);
+  });
+
+  it('refuses loopback and private upstreams', async () => {
+    const { port } = server.address() as AddressInfo;
+    for (const target of [`http://127.0.0.1:${port}/a.png`, `http://localhost:${port}/a.png`, 'http://169.254.169.254/']) {
+      const response = await proxy(`url=${encodeURIComponent(target)}`);
+      assert.equal(response.status, 403, target);
+    }
+  });
+
+  it('refuses non-http schemes', async () => {
+    const response = await proxy(`url=${encodeURIComponent('file:///etc/passwd')}`);
+    assert.equal(response.status, 400);
+  });
+});
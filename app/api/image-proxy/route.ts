@@ -1,70 +1,207 @@
+import path from 'node:path';
 import { NextResponse } from 'next/server';
-import { normalizeImageUrl } from '@/lib/normalizeImageUrl';
+import type { ThumbnailFormat } from '@/lib/decodeImage';
+import { renderThumbnail } from '@/lib/decodeImage';
+import type { CacheEntry } from '@/lib/imageCache';
+import { cacheLifetime, createImageCache, isFresh, sha256 } from '@/lib/imageCache';
+import { detectImageType, IMAGE_MIME_TYPES } from '@/lib/imageType';
+import { findPageImage, normalizeImageUrl } from '@/lib/normalizeImageUrl';
+import { safeFetch, SafeFetchError } from '@/lib/safeFetch';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const ALLOWED_PROTOCOLS = new Set(['http:', 'https:']);
+// Mirrors the "PNG, JPG up to 10MB" limit advertised in the upload UI.
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_THUMBNAIL_SIZE = 1024;
 
-export async function GET(request: Request) {
-  const { searchParams } = new URL(request.url);
-  const target = searchParams.get('url');
+const UPSTREAM_HEADERS = {
+  'User-Agent':
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122 Safari/537.36',
+  // text/html is accepted so product pages can be resolved to their og:image.
+  Accept: 'image/avif,image/webp,image/apng,image/*,text/html;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
 
-  if (!target) {
-    return NextResponse.json({ error: 'Missing url query parameter' }, { status: 400 });
+const cache = createImageCache(process.env.IMAGE_CACHE_DIR ?? path.join(process.cwd(), '.cache', 'image-proxy'));
+
+class ProxyError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
   }
+}
 
-  let parsedUrl: URL;
-  try {
-    parsedUrl = new URL(normalizeImageUrl(target));
-  } catch {
-    return NextResponse.json({ error: 'Invalid URL supplied' }, { status: 400 });
+type CacheStatus = 'HIT' | 'MISS' | 'REVALIDATED' | 'STALE';
+
+interface Original {
+  entry: CacheEntry;
+  bytes: Uint8Array;
+  cacheStatus: CacheStatus;
+}
+
+interface Transform {
+  width?: number;
+  height?: number;
+  format?: ThumbnailFormat;
+}
+
+const parseDimension = (raw: string | null, label: string) => {
+  if (raw === null) {
+    return undefined;
   }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || value > MAX_THUMBNAIL_SIZE) {
+    throw new ProxyError(`${label} must be an integer between 1 and ${MAX_THUMBNAIL_SIZE}`, 400);
+  }
+  return value;
+};
 
-  if (!ALLOWED_PROTOCOLS.has(parsedUrl.protocol)) {
-    return NextResponse.json({ error: 'Only http and https protocols are allowed' }, { status: 400 });
+const parseTransform = (params: URLSearchParams): Transform | null => {
+  const width = parseDimension(params.get('w'), 'w');
+  const height = parseDimension(params.get('h'), 'h');
+  const rawFormat = params.get('format');
+  const format = rawFormat === 'jpg' ? 'jpeg' : rawFormat;
+  if (format !== null && format !== 'png' && format !== 'jpeg') {
+    throw new ProxyError('format must be "png" or "jpeg"', 400);
   }
+  return width === undefined && height === undefined && format === null ? null : { width, height, format: format ?? undefined };
+};
 
-  try {
-    const upstreamHeaders = new Headers({
-      'User-Agent':
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122 Safari/537.36',
-      Accept: 'image/avif,image/webp,image/apng,image/*,*/*;q=0.8',
-      'Accept-Language': 'en-US,en;q=0.9',
-    });
+// Serves from disk while fresh, revalidates with the stored validators once stale, and falls back to the stale copy
+// when the upstream is failing. Pages are not cached themselves, only the image they point at.
+const loadOriginal = async (url: string, followPageImage = true): Promise<Original> => {
+  const cached = await cache.getEntry(url);
+  const cachedBytes = cached ? await cache.getBlob(cached.contentHash) : null;
+  const stale = cached && cachedBytes ? { entry: cached, bytes: cachedBytes, cacheStatus: 'STALE' as const } : null;
 
-    const attemptFetch = async (headers?: HeadersInit) =>
-      fetch(parsedUrl.toString(), {
-        redirect: 'follow',
-        headers,
-        cache: 'no-store',
-      });
+  if (stale && isFresh(stale.entry)) {
+    return { ...stale, cacheStatus: 'HIT' };
+  }
 
-    const upstreamResponse = await attemptFetch(upstreamHeaders);
+  const conditional: Record<string, string> = {};
+  if (stale?.entry.etag) conditional['If-None-Match'] = stale.entry.etag;
+  if (stale?.entry.lastModified) conditional['If-Modified-Since'] = stale.entry.lastModified;
 
-    if (!upstreamResponse.ok || !upstreamResponse.body) {
-      return NextResponse.json({ error: 'Failed to fetch remote image' }, { status: upstreamResponse.status || 502 });
+  let upstream;
+  try {
+    upstream = await safeFetch(url, {
+      headers: { ...UPSTREAM_HEADERS, ...conditional },
+      maxBytes: MAX_IMAGE_BYTES,
+      timeoutMs: FETCH_TIMEOUT_MS,
+    });
+  } catch (error) {
+    if (stale && error instanceof SafeFetchError && error.status >= 500) {
+      return stale;
     }
+    throw error;
+  }
 
-    const headers = new Headers();
-    const contentType = upstreamResponse.headers.get('content-type');
-    const contentLength = upstreamResponse.headers.get('content-length');
-
-    if (contentType) {
-      headers.set('Content-Type', contentType);
+  if (upstream.status === 304 && stale) {
+    const entry = { ...stale.entry, fetchedAt: Date.now(), maxAgeSeconds: cacheLifetime(upstream.headers) ?? 0 };
+    await cache.putEntry(entry);
+    return { entry, bytes: stale.bytes, cacheStatus: 'REVALIDATED' };
+  }
+  if (upstream.status < 200 || upstream.status >= 300) {
+    if (stale && upstream.status >= 500) {
+      return stale;
     }
-    if (contentLength) {
-      headers.set('Content-Length', contentLength);
+    throw new ProxyError(`Failed to fetch remote image (status ${upstream.status})`, 502);
+  }
+
+  // The upstream Content-Type is not trusted; only bytes that look like a raster image are passed through.
+  const type = detectImageType(upstream.body);
+  if (!type) {
+    // A pasted product page is resolved to the image it advertises, one level deep.
+    const pageImage =
+      followPageImage && /html/i.test(upstream.headers.get('content-type') ?? '')
+        ? findPageImage(new TextDecoder().decode(upstream.body), upstream.url)
+        : null;
+    if (pageImage) {
+      return loadOriginal(pageImage, false);
     }
+    throw new ProxyError('Remote file is not a supported image', 415);
+  }
+
+  const lifetime = cacheLifetime(upstream.headers);
+  const entry: CacheEntry = {
+    url,
+    contentHash: sha256(upstream.body),
+    contentType: IMAGE_MIME_TYPES[type],
+    etag: upstream.headers.get('etag') ?? undefined,
+    lastModified: upstream.headers.get('last-modified') ?? undefined,
+    fetchedAt: Date.now(),
+    maxAgeSeconds: lifetime ?? 0,
+  };
+  if (lifetime !== null) {
+    await cache.putBlob(entry.contentHash, upstream.body);
+    await cache.putEntry(entry);
+  }
+  return { entry, bytes: upstream.body, cacheStatus: 'MISS' };
+};
 
-    headers.set('Cache-Control', 'public, max-age=60');
-    headers.set('Access-Control-Allow-Origin', '*');
+const loadThumbnail = async ({ entry, bytes }: Original, transform: Transform) => {
+  const sourceType = detectImageType(bytes);
+  if (sourceType !== 'png' && sourceType !== 'jpeg') {
+    throw new ProxyError('Thumbnails are only available for PNG and JPEG sources', 415);
+  }
+  const format = transform.format ?? sourceType;
+  const key = `${entry.contentHash}-${transform.width ?? 0}x${transform.height ?? 0}.${format}`;
+
+  const cached = await cache.getDerived(key);
+  if (cached) {
+    return { bytes: cached, contentType: IMAGE_MIME_TYPES[format] };
+  }
 
-    return new Response(upstreamResponse.body, {
-      status: 200,
-      headers,
+  let thumbnail: Uint8Array;
+  try {
+    thumbnail = renderThumbnail(bytes, { width: transform.width, height: transform.height, format });
+  } catch {
+    throw new ProxyError('Unable to decode remote image', 415);
+  }
+  await cache.putDerived(key, thumbnail);
+  return { bytes: thumbnail, contentType: IMAGE_MIME_TYPES[format] };
+};
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const target = searchParams.get('url');
+
+  if (!target) {
+    return NextResponse.json({ error: 'Missing url query parameter' }, { status: 400 });
+  }
+
+  try {
+    const transform = parseTransform(searchParams);
+    const original = await loadOriginal(normalizeImageUrl(target));
+    const { bytes, contentType } = transform
+      ? await loadThumbnail(original, transform)
+      : { bytes: original.bytes, contentType: original.entry.contentType };
+
+    const remainingSeconds = Math.ceil(
+      (original.entry.fetchedAt + original.entry.maxAgeSeconds * 1000 - Date.now()) / 1000,
+    );
+    const headers = new Headers({
+      ETag: `"${transform ? sha256(bytes) : original.entry.contentHash}"`,
+      'Cache-Control': `public, max-age=${Math.max(60, remainingSeconds)}`,
+      'X-Cache': original.cacheStatus,
+      'X-Content-Type-Options': 'nosniff',
     });
+
+    if (request.headers.get('if-none-match') === headers.get('ETag')) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    headers.set('Content-Type', contentType);
+    headers.set('Content-Length', String(bytes.byteLength));
+    return new Response(Buffer.from(bytes), { status: 200, headers });
   } catch (error) {
+    if (error instanceof ProxyError || error instanceof SafeFetchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Proxy request failed', error);
     return NextResponse.json({ error: 'Unexpected proxy failure' }, { status: 502 });
   }
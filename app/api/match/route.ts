@@ -0,0 +1,375 @@
+import { readFile, stat } from 'node:fs/promises';
+import { NextResponse } from 'next/server';
+import type { AnnIndexFile, AnnSearcher } from '@/lib/annIndex';
+import { createIvfSearcher } from '@/lib/annIndex';
+import type { CalibrationMethod, ScoreDistribution } from '@/lib/calibration';
+import { calibrateScores, fitScoreDistribution, isCalibrationMethod } from '@/lib/calibration';
+import type { Product } from '@/lib/catalog';
+import { parseCatalog } from '@/lib/catalog';
+import { cachedCatalogDuplicates } from '@/lib/catalogDuplicates';
+import type { CatalogLocation } from '@/lib/catalogRegistry';
+import { resolveCatalog, UnknownCatalogError } from '@/lib/catalogRegistry';
+import { DEFAULT_CATALOG } from '@/lib/catalogs';
+import { samplePixelsFromBytes } from '@/lib/decodeImage';
+import { toVariantGroups } from '@/lib/duplicates';
+import type { Extractor } from '@/lib/extractors';
+import { extractorId } from '@/lib/extractors';
+import type { CatalogEmbedding, SimilarityScore } from '@/lib/imageMatching';
+import { collapseVariants, rankCatalog, selectCatalogExtractor, toCatalogEmbeddings } from '@/lib/imageMatching';
+import type { FacetFilters } from '@/lib/facets';
+import { hasActiveFilters, matchesFilters } from '@/lib/facets';
+import { normalizeImageUrl } from '@/lib/normalizeImageUrl';
+import { safeFetch, SafeFetchError } from '@/lib/safeFetch';
+import type { FusionMode, HybridScore, TextIndex } from '@/lib/textSearch';
+import { buildTextIndex, fuseScores, scoreText } from '@/lib/textSearch';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Mirrors the "PNG, JPG up to 10MB" limit advertised in the upload UI.
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_TOP_K = 10;
+const MAX_TOP_K = 100;
+
+interface MatchRequest {
+  catalog: string;
+  image?: Uint8Array;
+  url?: string;
+  embedding?: number[];
+  extractor?: string;
+  topK: number;
+  threshold: number;
+  filters: FacetFilters;
+  text?: string;
+  textWeight: number;
+  fusion: FusionMode;
+  explain: boolean;
+  collapseVariants: boolean;
+  calibration: CalibrationMethod;
+}
+
+class MatchRequestError extends Error {}
+
+interface LoadedCatalog {
+  products: Product[];
+  extractor: Extractor;
+  embeddings: CatalogEmbedding[];
+  index: AnnSearcher | null;
+  textIndex: TextIndex;
+  // Fitted on first calibrated request; null for catalogs too small to have pairs, undefined until then.
+  distribution?: ScoreDistribution | null;
+}
+
+interface CachedCatalog {
+  promise: Promise<LoadedCatalog>;
+  // Modification time of the products file it was read from; admin edits change it and trigger a reload.
+  modified: number;
+}
+
+// One entry per catalog name, each with its own vectors, ANN index and text index.
+const catalogs = new Map<string, CachedCatalog>();
+
+const readIndex = async (location: CatalogLocation, embeddings: CatalogEmbedding[]) => {
+  try {
+    const raw = await readFile(location.indexPath, 'utf8');
+    return createIvfSearcher(JSON.parse(raw) as AnnIndexFile, embeddings);
+  } catch (error) {
+    // Missing or stale index: rank with the brute-force scan instead.
+    console.warn(`Approximate index unavailable for "${location.name}"`, error instanceof Error ? error.message : error);
+    return null;
+  }
+};
+
+const loadCatalog = async (name: string) => {
+  const location = await resolveCatalog(name);
+  const { mtimeMs } = await stat(location.productsPath);
+  const cached = catalogs.get(name);
+  if (cached && cached.modified === mtimeMs) {
+    return cached.promise;
+  }
+  const promise: Promise<LoadedCatalog> = readFile(location.productsPath, 'utf8')
+    .then(async (raw) => {
+      const products = parseCatalog(JSON.parse(raw));
+      const extractor = selectCatalogExtractor(products.map((product) => product.embeddings));
+      if (!extractor) {
+        throw new Error('Catalog has no embeddings from a shared extractor');
+      }
+      const embeddings = toCatalogEmbeddings(products, extractorId(extractor));
+      return {
+        products,
+        extractor,
+        embeddings,
+        index: await readIndex(location, embeddings),
+        textIndex: buildTextIndex(products),
+      };
+    })
+    .catch((error) => {
+      if (catalogs.get(name)?.promise === promise) {
+        catalogs.delete(name);
+      }
+      throw error;
+    });
+  catalogs.set(name, { promise, modified: mtimeMs });
+  return promise;
+};
+
+const parseNumber = (raw: unknown, fallback: number, min: number, max: number, label: string) => {
+  if (raw === undefined || raw === null || raw === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new MatchRequestError(`${label} must be a number between ${min} and ${max}`);
+  }
+  return value;
+};
+
+const parseList = (raw: unknown): string[] => {
+  const values = Array.isArray(raw) ? raw : raw === undefined || raw === null ? [] : [raw];
+  return values.filter((value): value is string => typeof value === 'string' && value.trim() !== '');
+};
+
+const parsePrice = (raw: unknown, label: string) => {
+  if (raw === undefined || raw === null || raw === '') {
+    return null;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new MatchRequestError(`${label} must be a non-negative number`);
+  }
+  return value;
+};
+
+const parseFilters = (categories: unknown, tags: unknown, minPrice: unknown, maxPrice: unknown): FacetFilters => {
+  const filters = {
+    categories: parseList(categories),
+    tags: parseList(tags),
+    minPrice: parsePrice(minPrice, 'minPrice'),
+    maxPrice: parsePrice(maxPrice, 'maxPrice'),
+  };
+  if (filters.minPrice !== null && filters.maxPrice !== null && filters.minPrice > filters.maxPrice) {
+    throw new MatchRequestError('minPrice must not exceed maxPrice');
+  }
+  return filters;
+};
+
+// API callers may not match catalog casing exactly ("footwear" vs "Footwear").
+const canonicalizeFilters = (filters: FacetFilters, products: Product[]): FacetFilters => {
+  const categories = new Map(products.map((product) => [product.category.toLowerCase(), product.category]));
+  const tags = new Map(products.flatMap((product) => product.tags.map((tag) => [tag.toLowerCase(), tag] as const)));
+  return {
+    ...filters,
+    categories: filters.categories.map((category) => categories.get(category.toLowerCase()) ?? category),
+    tags: filters.tags.map((tag) => tags.get(tag.toLowerCase()) ?? tag),
+  };
+};
+
+// Vectors are omitted from the response; callers only need the product records.
+const omitEmbeddings = ({ id, name, category, image, tags, price, description }: Product): Omit<Product, 'embeddings'> => ({
+  id,
+  name,
+  category,
+  image,
+  tags,
+  price,
+  description,
+});
+
+const parseTextOptions = (text: unknown, textWeight: unknown, fusion: unknown) => {
+  if (fusion !== undefined && fusion !== null && fusion !== 'weighted' && fusion !== 'rrf') {
+    throw new MatchRequestError('fusion must be "weighted" or "rrf"');
+  }
+  return {
+    text: typeof text === 'string' && text.trim() !== '' ? text.trim() : undefined,
+    textWeight: parseNumber(textWeight, 0.35, 0, 1, 'textWeight'),
+    fusion: (fusion ?? 'weighted') as FusionMode,
+  };
+};
+
+// Shares the duplicate report cached for the catalog's duplicates endpoint, so images are hashed once per catalog.
+const variantGroupsFor = async (catalog: string, products: Product[]) => {
+  const report = await cachedCatalogDuplicates(catalog, products);
+  return toVariantGroups(report.clusters.map((cluster) => cluster.ids));
+};
+
+const parseCalibration = (raw: unknown): CalibrationMethod => {
+  if (raw === undefined || raw === null || raw === '') {
+    return 'none';
+  }
+  if (!isCalibrationMethod(raw)) {
+    throw new MatchRequestError('calibration must be "none", "zscore", "percentile" or "minmax"');
+  }
+  return raw;
+};
+
+// A form field or JSON property takes precedence over `?catalog=`.
+const parseCatalogName = (raw: unknown, request: Request) => {
+  const name = raw ?? new URL(request.url).searchParams.get('catalog') ?? DEFAULT_CATALOG;
+  if (typeof name !== 'string') {
+    throw new MatchRequestError('catalog must be a string');
+  }
+  return name;
+};
+
+const parseRequest = async (request: Request): Promise<MatchRequest> => {
+  const contentType = request.headers.get('content-type') ?? '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const form = await request.formData();
+    const file = form.get('image');
+    const textOptions = parseTextOptions(form.get('text'), form.get('textWeight'), form.get('fusion'));
+    if (!(file instanceof File) && !textOptions.text) {
+      throw new MatchRequestError('Multipart requests must include an "image" file field or a "text" query');
+    }
+    if (file instanceof File && file.size > MAX_IMAGE_BYTES) {
+      throw new MatchRequestError('Uploaded image exceeds the 10MB limit');
+    }
+    return {
+      catalog: parseCatalogName(form.get('catalog'), request),
+      image: file instanceof File ? new Uint8Array(await file.arrayBuffer()) : undefined,
+      topK: Math.round(parseNumber(form.get('topK'), DEFAULT_TOP_K, 1, MAX_TOP_K, 'topK')),
+      threshold: parseNumber(form.get('threshold'), 0, 0, 100, 'threshold'),
+      filters: parseFilters(form.getAll('category'), form.getAll('tag'), form.get('minPrice'), form.get('maxPrice')),
+      ...textOptions,
+      explain: form.get('explain') === 'true',
+      collapseVariants: form.get('collapseVariants') === 'true',
+      calibration: parseCalibration(form.get('calibration')),
+    };
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json()) as Record<string, unknown>;
+  } catch {
+    throw new MatchRequestError('Expected a multipart image upload or a JSON body');
+  }
+
+  const { url, embedding, extractor } = body;
+  if (embedding !== undefined && !(Array.isArray(embedding) && embedding.every((value) => Number.isFinite(value)))) {
+    throw new MatchRequestError('embedding must be an array of numbers');
+  }
+
+  return {
+    catalog: parseCatalogName(body.catalog, request),
+    url: typeof url === 'string' ? url : undefined,
+    embedding: embedding as number[] | undefined,
+    extractor: typeof extractor === 'string' ? extractor : undefined,
+    topK: Math.round(parseNumber(body.topK, DEFAULT_TOP_K, 1, MAX_TOP_K, 'topK')),
+    threshold: parseNumber(body.threshold, 0, 0, 100, 'threshold'),
+    filters: parseFilters(body.category, body.tag, body.minPrice, body.maxPrice),
+    ...parseTextOptions(body.text, body.textWeight, body.fusion),
+    explain: body.explain === true,
+    collapseVariants: body.collapseVariants === true,
+    calibration: parseCalibration(body.calibration),
+  };
+};
+
+const fetchImageBytes = async (rawUrl: string) => {
+  const response = await safeFetch(normalizeImageUrl(rawUrl), {
+    headers: { Accept: 'image/png,image/jpeg,image/*;q=0.8' },
+    maxBytes: MAX_IMAGE_BYTES,
+  });
+  if (response.status < 200 || response.status >= 300) {
+    throw new MatchRequestError(`Failed to fetch remote image (status ${response.status})`);
+  }
+  return response.body;
+};
+
+export async function POST(request: Request) {
+  try {
+    const query = await parseRequest(request);
+    const loaded = await loadCatalog(query.catalog);
+    const { products, extractor, embeddings: catalogEmbeddings, index, textIndex } = loaded;
+    const variantGroups = query.collapseVariants ? await variantGroupsFor(query.catalog, products) : null;
+    // Compared with undefined, not ??=, so a catalog without a distribution is not refitted on every request.
+    if (query.calibration !== 'none' && loaded.distribution === undefined) {
+      loaded.distribution = fitScoreDistribution(catalogEmbeddings);
+    }
+    const calibrate = <Score extends SimilarityScore>(scores: Score[]) =>
+      calibrateScores(scores, loaded.distribution ?? null, query.calibration);
+    const id = extractorId(extractor);
+
+    let embedding: number[] | null = null;
+    if (query.embedding) {
+      if (query.extractor && query.extractor !== id) {
+        throw new MatchRequestError(`Catalog is embedded with ${id}; received an embedding from ${query.extractor}`);
+      }
+      if (query.embedding.length !== extractor.dimensions) {
+        throw new MatchRequestError(`${id} embeddings have ${extractor.dimensions} dimensions`);
+      }
+      embedding = query.embedding;
+    } else {
+      const bytes = query.image ?? (query.url ? await fetchImageBytes(query.url) : null);
+      if (!bytes && !query.text) {
+        throw new MatchRequestError('Provide an image upload, a url, an embedding, or a text query');
+      }
+      try {
+        embedding = bytes ? extractor.extract(samplePixelsFromBytes(bytes)) : null;
+      } catch (error) {
+        throw new MatchRequestError(error instanceof Error ? error.message : 'Unable to decode image');
+      }
+    }
+
+    const filters = canonicalizeFilters(query.filters, products);
+    const productsById = new Map(products.map((product) => [product.id, omitEmbeddings(product)]));
+    const filter = hasActiveFilters(filters)
+      ? (productId: number) => {
+          const product = productsById.get(productId);
+          return product !== undefined && matchesFilters(product, filters);
+        }
+      : undefined;
+
+    let ranked: (SimilarityScore | HybridScore)[];
+    if (query.text) {
+      // Visual scores are calibrated before fusion, so the blend and the threshold both work on calibrated values.
+      const visualScores = embedding
+        ? calibrate(
+            // Every product needs a visual score for fusion, so the index is not used here.
+            rankCatalog({ extractor: id, embedding }, catalogEmbeddings, catalogEmbeddings.length, {
+              index: null,
+              filter,
+              explain: query.explain,
+            }),
+          )
+        : [];
+      const textScores = new Map([...scoreText(textIndex, query.text)].filter(([productId]) => !filter || filter(productId)));
+      // The breakdown (and raw score) explains the visual part only; fusion does not carry it over on its own.
+      const breakdowns = new Map(visualScores.map((score) => [score.id, score.breakdown]));
+      const rawScores = new Map(visualScores.map((score) => [score.id, score.rawSimilarity]));
+      const fused = fuseScores(visualScores, textScores, {
+        mode: query.fusion,
+        textWeight: embedding ? query.textWeight : 1,
+      });
+      ranked = (variantGroups ? collapseVariants(fused, variantGroups, filter) : fused)
+        .slice(0, query.topK)
+        .map((score) => ({ ...score, breakdown: breakdowns.get(score.id), rawSimilarity: rawScores.get(score.id) }));
+    } else {
+      ranked = calibrate(
+        rankCatalog({ extractor: id, embedding: embedding ?? [] }, catalogEmbeddings, query.topK, {
+          index,
+          filter,
+          explain: query.explain,
+          variantGroups,
+        }),
+      );
+    }
+
+    const results = ranked
+      .filter((score) => score.similarity >= query.threshold)
+      .flatMap((score) => {
+        const product = productsById.get(score.id);
+        return product ? [{ ...product, ...score }] : [];
+      });
+
+    return NextResponse.json({ catalog: query.catalog, extractor: id, calibration: query.calibration, results });
+  } catch (error) {
+    if (error instanceof MatchRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof UnknownCatalogError || error instanceof SafeFetchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Match request failed', error);
+    return NextResponse.json({ error: 'Unexpected matching failure' }, { status: 500 });
+  }
+}
@@ -1,31 +1,318 @@
 /* eslint-disable @next/next/no-img-element */
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
-import type { CatalogEmbedding } from '@/lib/imageMatching';
-import { findSimilarProducts } from '@/lib/imageMatching';
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from 'react';
+import BatchMatcher from '@/components/BatchMatcher';
+import CameraCapture from '@/components/CameraCapture';
+import MatchExplanation from '@/components/MatchExplanation';
+import RegionSelector from '@/components/RegionSelector';
+import SearchHistory from '@/components/SearchHistory';
+import type { AnnIndexFile, AnnSearcher } from '@/lib/annIndex';
+import { createIvfSearcher } from '@/lib/annIndex';
+import { canvasDecoder } from '@/lib/browserPixels';
+import type { CalibrationMethod, ScoreDistribution } from '@/lib/calibration';
+import { CALIBRATION_METHODS, calibrateScores, fitScoreDistribution } from '@/lib/calibration';
+import type { Product } from '@/lib/catalog';
+import { formatCatalogIssue, productThumbnailUrl, validateCatalog } from '@/lib/catalog';
+import type { CatalogSummary } from '@/lib/catalogs';
+import {
+  DEFAULT_CATALOG,
+  catalogFromSearchParams,
+  catalogIndexUrl,
+  catalogProductsUrl,
+  catalogToSearchParams,
+} from '@/lib/catalogs';
+import type { ColorProfile } from '@/lib/colorProfile';
+import { computeColorProfile } from '@/lib/colorProfile';
+import { downloadText } from '@/lib/download';
+import { toVariantGroups } from '@/lib/duplicates';
+import { extractorId, getExtractor, isMaskedExtractor } from '@/lib/extractors';
+import type { FacetFilters } from '@/lib/facets';
+import {
+  EMPTY_FILTERS,
+  computeFacets,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  hasActiveFilters,
+  matchesFilters,
+} from '@/lib/facets';
+import type { CatalogEmbedding, ScoreContribution, SimilarityScore } from '@/lib/imageMatching';
+import {
+  collapseVariants,
+  getImageEmbedding,
+  rankCatalog,
+  selectCatalogExtractor,
+  toCatalogEmbeddings,
+} from '@/lib/imageMatching';
+import type { MatchWorkerClient, WorkerMatch } from '@/lib/matchWorkerClient';
+import { createMatchWorker, isAbortError } from '@/lib/matchWorkerClient';
 import { normalizeImageUrl } from '@/lib/normalizeImageUrl';
-
-interface Product {
-  id: number;
-  name: string;
-  category: string;
-  image: string;
-  tags: string[];
-  price: number;
-  description: string;
-  embedding: number[];
-}
+import type { QueryVector, SharedSearch } from '@/lib/permalink';
+import {
+  DEFAULT_TEXT_WEIGHT,
+  DEFAULT_THRESHOLD,
+  clearSharedSearchParams,
+  sharedSearchFromParams,
+  sharedSearchToParams,
+} from '@/lib/permalink';
+import type { SourceRegion } from '@/lib/pixels';
+import { FULL_REGION, cropPixels } from '@/lib/pixels';
+import type { Judgment } from '@/lib/relevanceFeedback';
+import { pairId, pairsToCsv, pairsToJson, refineQuery } from '@/lib/relevanceFeedback';
+import { proposeSalientRegion } from '@/lib/saliency';
+import type { SearchSession } from '@/lib/searchHistory';
+import {
+  clearLabelledPairs,
+  clearSessions,
+  createThumbnail,
+  deleteLabelledPair,
+  deleteSession,
+  listLabelledPairs,
+  listSessions,
+  saveLabelledPair,
+  saveSession,
+} from '@/lib/searchHistory';
+import type { FusionMode, HybridScore, TextIndex } from '@/lib/textSearch';
+import { buildTextIndex, fuseScores, scoreText } from '@/lib/textSearch';
 
 interface ProductResult extends Product {
   similarity: number;
+  // Cosine × 100 behind a calibrated `similarity`.
+  rawSimilarity?: number;
+  // Present for hybrid searches: the visual and text shares of `similarity`.
+  visualScore?: number;
+  textScore?: number;
+  breakdown?: ScoreContribution[];
+  // Near-duplicates folded into this card when duplicate grouping is on.
+  variants?: Product[];
 }
 
 const PRODUCT_IMAGE_FALLBACK =
   'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/w8AAusB9Yl34xkAAAAASUVORK5CYII=';
 
-const statHighlights = [
-  { label: 'Catalogue coverage', value: '52 curated SKUs' },
+// The limit the dropzone advertises, and the one /api/match enforces.
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Cards are at most ~640px wide.
+const thumbnailUrl = (image: string) => productThumbnailUrl(image, 640);
+
+// The index is optional: when it is missing, stale or built for other vectors, matching falls back to the
+// brute-force scan.
+const fetchAnnIndex = async (catalogName: string, signal: AbortSignal): Promise<AnnIndexFile | null> => {
+  try {
+    const response = await fetch(catalogIndexUrl(catalogName), { signal });
+    return response.ok ? ((await response.json()) as AnnIndexFile) : null;
+  } catch (err) {
+    if (signal.aborted) {
+      throw err;
+    }
+    console.warn('Ignoring approximate index, using brute-force ranking', err);
+    return null;
+  }
+};
+
+interface ActiveCatalog {
+  embeddings: CatalogEmbedding[];
+  searcher: AnnSearcher | null;
+  // Raw index for the match worker; null whenever `searcher` is.
+  indexFile: AnnIndexFile | null;
+  // Suspected duplicate clusters from /api/catalogs/<name>/duplicates; null while grouping is off.
+  variantClusters: number[][] | null;
+  // Pair score statistics of these vectors for calibration; null when the catalog is too small, and until
+  // withDistribution has fitted them.
+  distribution: ScoreDistribution | null;
+}
+
+const EMPTY_CATALOG: ActiveCatalog = {
+  embeddings: [],
+  searcher: null,
+  indexFile: null,
+  variantClusters: null,
+  distribution: null,
+};
+
+// Calibrated scores keep the default threshold meaningful; raw cosine puts nearly every product above 90.
+const DEFAULT_CALIBRATION: CalibrationMethod = 'percentile';
+
+interface SearchOptions {
+  // Query image; a caller that has just loaded one passes it, since it is not in state yet.
+  image?: HTMLImageElement | null;
+  filters?: FacetFilters;
+  calibration?: CalibrationMethod;
+  scrollToResults?: boolean;
+  region?: SourceRegion | null;
+  active?: ActiveCatalog;
+  // Feedback-refined query vector; null searches with the image or stored query as given.
+  refinement?: QueryVector | null;
+}
+
+// Catalog vectors for the plain or background-masked extractor family. The index is built for a single extractor,
+// so the other family silently runs without it. The score distribution is left to withDistribution.
+const prepareCatalog = (
+  data: Product[],
+  indexFile: AnnIndexFile | null,
+  maskBackground: boolean,
+): ActiveCatalog | null => {
+  const extractor = selectCatalogExtractor(
+    data.map((product) => product.embeddings),
+    { maskBackground },
+  );
+  if (!extractor) {
+    return null;
+  }
+  const embeddings = toCatalogEmbeddings(data, extractorId(extractor));
+  if (!indexFile || indexFile.extractor !== extractorId(extractor)) {
+    return { embeddings, searcher: null, indexFile: null, variantClusters: null, distribution: null };
+  }
+  try {
+    return {
+      embeddings,
+      searcher: createIvfSearcher(indexFile, embeddings),
+      indexFile,
+      variantClusters: null,
+      distribution: null,
+    };
+  } catch (err) {
+    console.warn('Ignoring approximate index, using brute-force ranking', err);
+    return { embeddings, searcher: null, indexFile: null, variantClusters: null, distribution: null };
+  }
+};
+
+// Loads the vectors into the match worker, which fits the score distribution off the main thread. Only without a
+// worker is it fitted here.
+const withDistribution = async (active: ActiveCatalog, worker: MatchWorkerClient | null): Promise<ActiveCatalog> => ({
+  ...active,
+  distribution: worker
+    ? (await worker.loadCatalog(active.embeddings, active.indexFile)).distribution
+    : fitScoreDistribution(active.embeddings),
+});
+
+// Fusion needs a visual score for every product, so that pass skips the index and its variant folding.
+const forFusion = (active: ActiveCatalog): ActiveCatalog => ({ ...active, searcher: null, variantClusters: null });
+
+const newSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const replaceSearchParams = (params: URLSearchParams) => {
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+};
+
+const facetPredicate = (filters: FacetFilters, productsById: Map<number, Product>) =>
+  hasActiveFilters(filters)
+    ? (id: number) => {
+        const product = productsById.get(id);
+        return product !== undefined && matchesFilters(product, filters);
+      }
+    : undefined;
+
+// A stored query vector ranks like an image would in matchImage. Plain and masked vectors have the same size, so
+// a mismatch has to be caught here rather than by rankCatalog.
+const rankQueryVector = (
+  query: QueryVector,
+  active: ActiveCatalog,
+  topK: number,
+  filter: ((id: number) => boolean) | undefined,
+): WorkerMatch => {
+  const catalogExtractor = active.embeddings[0]?.extractor;
+  if (catalogExtractor !== query.extractor) {
+    throw new Error(`This search was made with ${query.extractor}, but the catalogue provides ${catalogExtractor}`);
+  }
+  const scores = rankCatalog(query, active.embeddings, topK, {
+    index: active.searcher,
+    filter,
+    explain: true,
+    variantGroups: active.variantClusters ? toVariantGroups(active.variantClusters) : null,
+  });
+  return { scores, embedding: query.embedding };
+};
+
+interface ResultOptions {
+  text: string;
+  textWeight: number;
+  fusion: FusionMode;
+  threshold: number;
+  calibration: CalibrationMethod;
+  distribution: ScoreDistribution | null;
+  filter: ((id: number) => boolean) | undefined;
+  textIndex: TextIndex;
+  productsById: Map<number, Product>;
+  variantClusters: number[][] | null;
+  // False for text-only searches, where the text score is the whole score.
+  hasVisual: boolean;
+}
+
+// Everything after visual ranking: calibration, text fusion, variant folding, the threshold and product details.
+// With text, `visualScores` covers the whole catalog uncollapsed, otherwise it is already the final top ten.
+const toResults = (rawScores: SimilarityScore[], options: ResultOptions): ProductResult[] => {
+  const { filter, productsById } = options;
+  const visualScores = calibrateScores(rawScores, options.distribution, options.calibration);
+  let results: (SimilarityScore | HybridScore)[] = visualScores;
+  if (options.text) {
+    const textScores = [...scoreText(options.textIndex, options.text)].filter(([id]) => !filter || filter(id));
+    const fused = fuseScores(visualScores, new Map(textScores), {
+      mode: options.fusion,
+      textWeight: options.hasVisual ? options.textWeight / 100 : 1,
+    });
+    results = (
+      options.variantClusters ? collapseVariants(fused, toVariantGroups(options.variantClusters), filter) : fused
+    ).slice(0, 10);
+  }
+  const breakdowns = new Map(visualScores.map((score) => [score.id, score.breakdown]));
+  const rawSimilarities = new Map(visualScores.map((score) => [score.id, score.rawSimilarity]));
+
+  return results
+    .filter((item) => item.similarity >= options.threshold)
+    .flatMap((match): ProductResult[] => {
+      const product = productsById.get(match.id);
+      if (!product) {
+        return [];
+      }
+      return [
+        {
+          ...product,
+          similarity: Math.round(match.similarity),
+          ...('text' in match ? { visualScore: match.visual, textScore: match.text } : {}),
+          rawSimilarity: rawSimilarities.get(match.id),
+          breakdown: match.breakdown ?? breakdowns.get(match.id),
+          variants: match.variants?.flatMap((id) => productsById.get(id) ?? []),
+        },
+      ];
+    });
+};
+
+// Re-ranks a saved or shared search from its query vector and text; the original image is not needed.
+const replaySearch = (search: SharedSearch, active: ActiveCatalog, data: Product[]) => {
+  const productsById = new Map(data.map((product) => [product.id, product]));
+  const filter = facetPredicate(search.filters, productsById);
+  const visual = search.query
+    ? search.text
+      ? rankQueryVector(search.query, forFusion(active), active.embeddings.length, filter)
+      : rankQueryVector(search.query, active, 10, filter)
+    : null;
+  return toResults(visual?.scores ?? [], {
+    ...search,
+    filter,
+    textIndex: buildTextIndex(data),
+    productsById,
+    distribution: active.distribution,
+    variantClusters: active.variantClusters,
+    hasVisual: visual !== null,
+  });
+};
+
+// Change against the score a product had before masking was toggled; products new to the list have none.
+const scoreDelta = (product: ProductResult, baseline: Map<number, number>) => {
+  const before = baseline.get(product.id);
+  if (before === undefined) {
+    return 'New match';
+  }
+  const change = Math.round(product.similarity - before);
+  return change === 0 ? 'Unchanged' : `${change > 0 ? '▲' : '▼'} ${Math.abs(change)} (was ${Math.round(before)}%)`;
+};
+
+// Coverage follows the selected catalogue rather than a hard-coded count.
+const statHighlights = (productCount: number) => [
+  { label: 'Catalogue coverage', value: productCount > 0 ? `${productCount} curated SKUs` : 'Loading catalogue…' },
   { label: 'Match latency', value: 'Sub-500ms in browser' },
   { label: 'Vision stack', value: 'Next.js · Canvas · embeddings' },
 ];
@@ -43,7 +330,7 @@ const featureCards = [
   },
   {
     title: 'Instant insights',
-    copy: 'No backend required—everything runs inside the browser.',
+    copy: 'Ranking runs in a Web Worker against pre-computed catalogue vectors, so the page never blocks.',
     icon: '⚡',
   },
 ];
@@ -51,7 +338,7 @@ const featureCards = [
 const workflowSteps = [
   {
     title: 'Upload',
-    description: 'Drop an image or paste a URL. We normalise it for consistent analysis.',
+    description: 'Drop an image or paste a URL, fetched through our image proxy. We normalise it for consistent analysis.',
   },
   {
     title: 'Analyse',
@@ -64,10 +351,10 @@ const workflowSteps = [
 ];
 
 const reasonCards = [
-  'No server costs or ML cold-starts—TensorFlow.js style inference stays in-memory.',
+  'No ML runtime or model download—compact colour and layout extractors run in the browser, and /api/match serves the same ranking from the server.',
   'Consistent results for lifestyle imagery because we normalise lighting and size before analysis.',
   'Product catalogue embeddings are pre-generated so similarity ranking stays instant.',
-  'Extensible JSON data source lets reviewers swap the catalogue without touching code.',
+  'Catalogues are JSON files that the admin page can edit, import and re-embed without touching code.',
 ];
 
 const techBadges = [
@@ -80,19 +367,62 @@ const techBadges = [
 ];
 
 export default function Home() {
+  // The selector only renders once the catalog list has loaded, so reading the URL here is hydration-safe.
+  const [catalogName, setCatalogName] = useState(() =>
+    typeof window === 'undefined' ? DEFAULT_CATALOG : catalogFromSearchParams(new URLSearchParams(window.location.search)),
+  );
+  const [catalogs, setCatalogs] = useState<CatalogSummary[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
-  const [productEmbeddings, setProductEmbeddings] = useState<CatalogEmbedding[]>([]);
+  const [annIndexFile, setAnnIndexFile] = useState<AnnIndexFile | null>(null);
+  const [catalog, setCatalog] = useState<ActiveCatalog>(EMPTY_CATALOG);
+  const [maskBackground, setMaskBackground] = useState(false);
+  const [loadingVariants, setLoadingVariants] = useState(false);
+  // Scores from before the last masking toggle, so cards can show how the switch moved each match.
+  const [scoreBaseline, setScoreBaseline] = useState<Map<number, number> | null>(null);
+  // Colours and tone of the query as last searched, for the per-card match explanations.
+  const [queryProfile, setQueryProfile] = useState<ColorProfile | null>(null);
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [imageElement, setImageElement] = useState<HTMLImageElement | null>(null);
+  // Part of the query image to match; null means the whole frame.
+  const [region, setRegion] = useState<SourceRegion | null>(null);
   const [similarProducts, setSimilarProducts] = useState<ProductResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [filterThreshold, setFilterThreshold] = useState(30);
+  const [filterThreshold, setFilterThreshold] = useState(DEFAULT_THRESHOLD);
+  const [calibration, setCalibration] = useState<CalibrationMethod>(DEFAULT_CALIBRATION);
+  const [textQuery, setTextQuery] = useState('');
+  const [textWeight, setTextWeight] = useState(DEFAULT_TEXT_WEIGHT);
+  const [fusionMode, setFusionMode] = useState<FusionMode>('weighted');
+  // Facets only render once the catalog has loaded, so reading the URL here cannot cause a hydration mismatch.
+  const [facetFilters, setFacetFilters] = useState<FacetFilters>(() =>
+    typeof window === 'undefined' ? EMPTY_FILTERS : filtersFromSearchParams(new URLSearchParams(window.location.search)),
+  );
+  const [hasSearched, setHasSearched] = useState(false);
+  // Query vector of a reopened session or shared link, standing in for the image until a new one is loaded.
+  const [storedQuery, setStoredQuery] = useState<{ query: QueryVector; thumbnail: string | null } | null>(null);
+  // The search behind the results on screen, for the permalink.
+  const [lastSearch, setLastSearch] = useState<SharedSearch | null>(null);
+  const [copiedLink, setCopiedLink] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SearchSession[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  // A session from another catalog, opened once that catalog has loaded.
+  const [pendingSession, setPendingSession] = useState<SearchSession | null>(null);
+  // Good/bad marks on the current results and the query they refine; `feedbackBase` is the query as first searched.
+  const [judgments, setJudgments] = useState<Map<number, Judgment>>(new Map());
+  const [feedbackBase, setFeedbackBase] = useState<QueryVector | null>(null);
+  const [refinedQuery, setRefinedQuery] = useState<QueryVector | null>(null);
+  const [labelledPairCount, setLabelledPairCount] = useState(0);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  // A file is being dragged over the dropzone.
+  const [dragActive, setDragActive] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const urlInputRef = useRef<HTMLInputElement>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
   const remoteObjectUrlRef = useRef<string | null>(null);
+  const workerRef = useRef<MatchWorkerClient | null>(null);
+  const searchControllerRef = useRef<AbortController | null>(null);
 
   const revokeRemoteObjectUrl = () => {
     if (remoteObjectUrlRef.current) {
@@ -103,32 +433,88 @@ export default function Home() {
 
   useEffect(() => () => revokeRemoteObjectUrl(), []);
 
+  const textIndex = useMemo(() => buildTextIndex(products), [products]);
+  const productsById = useMemo(() => new Map(products.map((product) => [product.id, product])), [products]);
+  const facets = useMemo(() => computeFacets(products, facetFilters), [products, facetFilters]);
+  const maskingAvailable = useMemo(
+    () => selectCatalogExtractor(products.map((product) => product.embeddings), { maskBackground: true }) !== null,
+    [products],
+  );
+  const productEmbeddings = catalog.embeddings;
+  const catalogSummary = catalogs.find((entry) => entry.name === catalogName);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch('/api/catalogs', { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error(`status ${response.status}`))))
+      .then((body: { catalogs: CatalogSummary[] }) => setCatalogs(body.catalogs))
+      .catch((err) => {
+        // Without the list the selector stays hidden; `?catalog=` still works.
+        if (!controller.signal.aborted) {
+          console.warn('Catalog list unavailable', err);
+        }
+      });
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((err) => console.warn('Search history unavailable', err));
+    listLabelledPairs()
+      .then((pairs) => setLabelledPairCount(pairs.length))
+      .catch((err) => console.warn('Labelled pairs unavailable', err));
+  }, []);
+
+  // A pending history session, or else a shared link in the URL, is replayed against the catalog just loaded.
+  const replayOnLoad = useEffectEvent((data: Product[], indexFile: AnnIndexFile | null) => {
+    const search = pendingSession ?? sharedSearchFromParams(new URLSearchParams(window.location.search));
+    setPendingSession(null);
+    if (search && search.catalog === catalogName) {
+      // A shared link is not in this browser's history, but feedback on it still needs a query id.
+      setActiveSessionId(pendingSession?.id ?? newSessionId());
+      openSearch(search, data, indexFile, pendingSession?.thumbnail ?? null);
+    }
+  });
+
+  // Reloads products, index and worker vectors whenever the selected catalog changes.
   useEffect(() => {
     let cancelled = false;
     const controller = new AbortController();
+    const worker = createMatchWorker();
 
     const loadProducts = async () => {
       try {
-        const response = await fetch('/products.json', { signal: controller.signal });
+        const response = await fetch(catalogProductsUrl(catalogName), { signal: controller.signal });
         if (!response.ok) {
           throw new Error('Failed to fetch product data');
         }
-        const data = (await response.json()) as Product[];
+        const { products: data, issues } = validateCatalog(await response.json());
+        if (issues.length > 0) {
+          console.warn(`Skipping invalid catalog entries:\n${issues.map(formatCatalogIssue).join('\n')}`);
+        }
+        if (data.length === 0) {
+          throw new Error('Catalog contains no valid products');
+        }
+        const indexFile = await fetchAnnIndex(catalogName, controller.signal);
+        const prepared = prepareCatalog(data, indexFile, false);
+        if (!prepared) {
+          throw new Error('Catalog entries do not share an embedding from any registered extractor');
+        }
+        const initial = await withDistribution(prepared, worker);
         if (!cancelled) {
+          workerRef.current = worker;
           setProducts(data);
-          setProductEmbeddings(
-            data.map((product) => ({
-              id: product.id,
-              embedding: product.embedding,
-            })),
-          );
+          setAnnIndexFile(indexFile);
+          setCatalog(initial);
+          replayOnLoad(data, indexFile);
         }
       } catch (err) {
         if (cancelled || controller.signal.aborted) {
           return;
         }
         console.error(err);
-        setError('Failed to load products database');
+        setError(`Failed to load the "${catalogName}" products database`);
       }
     };
 
@@ -137,10 +523,13 @@ export default function Home() {
     return () => {
       cancelled = true;
       controller.abort();
+      worker?.terminate();
+      workerRef.current = null;
     };
-  }, []);
+  }, [catalogName]);
 
-  const loadImage = (source: string, isRemoteObjectUrl = false) => {
+  // `onLoad` runs with the decoded image once it has replaced the previous query.
+  const loadImage = (source: string, isRemoteObjectUrl = false, onLoad?: (image: HTMLImageElement) => void) => {
     const image = new Image();
     image.crossOrigin = 'anonymous';
     image.onload = () => {
@@ -150,7 +539,12 @@ export default function Home() {
         }
         remoteObjectUrlRef.current = source;
       }
+      setRegion(null);
+      setScoreBaseline(null);
+      setStoredQuery(null);
+      resetFeedback();
       setImageElement(image);
+      onLoad?.(image);
     };
     image.onerror = () => {
       if (isRemoteObjectUrl) {
@@ -161,13 +555,18 @@ export default function Home() {
     image.src = source;
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Shared by the file picker, drag-and-drop and clipboard paste.
+  const loadImageFile = (file: File) => {
     setError(null);
-    revokeRemoteObjectUrl();
-    const file = event.target.files?.[0];
-    if (!file) {
+    if (!file.type.startsWith('image/')) {
+      setError('That file is not an image. Use a PNG or JPG.');
+      return;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      setError('Images must be 10MB or smaller');
       return;
     }
+    revokeRemoteObjectUrl();
 
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -183,14 +582,24 @@ export default function Home() {
     reader.readAsDataURL(file);
   };
 
-  const handleUrlInput = async () => {
-    setError(null);
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      loadImageFile(file);
+    }
+  };
+
+  const handleUrlInput = () => {
     const url = urlInputRef.current?.value?.trim();
     if (!url) {
       setError('Please enter a valid image URL');
       return;
     }
+    loadImageUrl(url);
+  };
 
+  const loadImageUrl = async (url: string) => {
+    setError(null);
     const normalizedUrl = normalizeImageUrl(url);
     const proxiedUrl = `/api/image-proxy?url=${encodeURIComponent(normalizedUrl)}`;
 
@@ -216,50 +625,566 @@ export default function Home() {
     }
   };
 
-  const handleSearch = async () => {
-    if (!imageElement) {
-      setError('Upload an image before searching');
+  // Files dropped from the desktop, or an image dragged from another page (which arrives as its URL).
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+    const file = [...event.dataTransfer.files].find((entry) => entry.type.startsWith('image/'));
+    if (file) {
+      loadImageFile(file);
+      return;
+    }
+    const url = (event.dataTransfer.getData('text/uri-list') || event.dataTransfer.getData('text/plain'))
+      .split(/\r?\n/)
+      .find((line) => /^https?:\/\//i.test(line.trim()))
+      ?.trim();
+    if (url) {
+      if (urlInputRef.current) urlInputRef.current.value = url;
+      loadImageUrl(url);
       return;
     }
+    setError(event.dataTransfer.files.length > 0 ? 'That file is not an image. Use a PNG or JPG.' : 'Drop an image file or link');
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setDragActive(true);
+  };
+
+  // Leaving for a child element also fires dragleave; only leaving the zone itself counts.
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setDragActive(false);
+    }
+  };
 
-    if (productEmbeddings.length === 0) {
+  // Ctrl+V / ⌘V anywhere on the page. Pastes without an image (text into the URL or search box) are left alone.
+  const handlePaste = useEffectEvent((event: ClipboardEvent) => {
+    const file = [...(event.clipboardData?.files ?? [])].find((entry) => entry.type.startsWith('image/'));
+    if (file) {
+      event.preventDefault();
+      loadImageFile(file);
+    }
+  });
+
+  useEffect(() => {
+    const listener = (event: ClipboardEvent) => handlePaste(event);
+    window.addEventListener('paste', listener);
+    return () => window.removeEventListener('paste', listener);
+  }, []);
+
+  // A captured frame becomes the query image like an upload. Continuous matching also ranks it straight away,
+  // without saving every frame to the history.
+  const handleCameraFrame = (frame: string, match: boolean) => {
+    setError(null);
+    revokeRemoteObjectUrl();
+    setUploadedImage(frame);
+    loadImage(frame, false, match ? (image) => runSearch({ image, region: null, refinement: null }) : undefined);
+  };
+
+  // Ranks in the match worker when available, otherwise on the main thread. `active` defaults to the catalog in
+  // state; a caller that has just switched catalogs passes the new one, since state has not re-rendered yet.
+  const matchImage = async (
+    image: HTMLImageElement | ImageBitmap,
+    topK: number,
+    filter: ((id: number) => boolean) | undefined,
+    signal: AbortSignal,
+    queryRegion: SourceRegion | null = null,
+    active: ActiveCatalog = catalog,
+  ): Promise<WorkerMatch> => {
+    const worker = workerRef.current;
+    if (!worker) {
+      const extractor = getExtractor(active.embeddings[0].extractor);
+      return rankQueryVector(
+        { extractor: extractorId(extractor), embedding: getImageEmbedding(image, extractor, queryRegion) },
+        active,
+        topK,
+        filter,
+      );
+    }
+    const allowedIds = filter ? active.embeddings.filter((entry) => filter(entry.id)).map((entry) => entry.id) : undefined;
+    // The worker takes ownership of the bitmap, so the caller's image stays usable.
+    const bitmap = await createImageBitmap(image);
+    return worker.match(
+      bitmap,
+      topK,
+      {
+        allowedIds,
+        region: queryRegion,
+        explain: true,
+        exact: active.searcher === null,
+        variantClusters: active.variantClusters ?? undefined,
+      },
+      signal,
+    );
+  };
+
+  // Described with the same crop and masking as the search, so it shows what was compared.
+  const describeQuery = (image: HTMLImageElement, queryRegion: SourceRegion | null, active: ActiveCatalog) => {
+    const pixels = canvasDecoder.decode(image);
+    const masked = active.embeddings.length > 0 && isMaskedExtractor(getExtractor(active.embeddings[0].extractor));
+    return computeColorProfile(queryRegion ? cropPixels(pixels, queryRegion) : pixels, { maskBackground: masked });
+  };
+
+  const cancelSearch = () => searchControllerRef.current?.abort();
+
+  // Resolves with the search and its results once they are on screen; null when it failed or was superseded.
+  // Options left out are taken from state; callers that have just changed one pass it, since state has not
+  // re-rendered yet.
+  const runSearch = async ({
+    image: queryImage = imageElement,
+    filters = facetFilters,
+    calibration: scoreScale = calibration,
+    scrollToResults = false,
+    region: queryRegion = region,
+    active = catalog,
+    refinement = refinedQuery,
+  }: SearchOptions = {}): Promise<{ search: SharedSearch; results: ProductResult[] } | null> => {
+    const trimmedQuery = textQuery.trim();
+    if (!queryImage && !storedQuery && !trimmedQuery) {
+      setError('Upload an image or describe what you are looking for before searching');
+      return null;
+    }
+
+    if (active.embeddings.length === 0) {
       setError('Products are still loading. Please try again in a moment.');
-      return;
+      return null;
     }
 
+    // A newer search (e.g. from a facet change) supersedes one still running.
+    searchControllerRef.current?.abort();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
     setLoading(true);
     setError(null);
 
+    const filter = facetPredicate(filters, productsById);
+    // A feedback-refined vector replaces the query it was derived from.
+    const matchQuery = async (topK: number, queryActive: ActiveCatalog) => {
+      if (refinement) {
+        return rankQueryVector(refinement, queryActive, topK, filter);
+      }
+      if (queryImage) {
+        return matchImage(queryImage, topK, filter, controller.signal, queryRegion, queryActive);
+      }
+      return storedQuery ? rankQueryVector(storedQuery.query, queryActive, topK, filter) : null;
+    };
+
     try {
-      const results = await findSimilarProducts(imageElement, productEmbeddings, 10);
-      const filteredResults = results.filter((item) => item.similarity >= filterThreshold);
-
-      const matches: ProductResult[] = [];
-      for (const match of filteredResults) {
-        const product = products.find((entry) => entry.id === match.id);
-        if (product) {
-          matches.push({ ...product, similarity: Math.round(match.similarity) });
-        }
+      // Fusion needs visual scores beyond the final ten, otherwise text matches could never surface. Variants are
+      // folded after fusion, so every member keeps its own visual score until then.
+      const visual = trimmedQuery
+        ? await matchQuery(active.embeddings.length, forFusion(active))
+        : await matchQuery(10, active);
+      if (controller.signal.aborted) {
+        return null;
       }
+      const search: SharedSearch = {
+        catalog: catalogName,
+        query: visual ? { extractor: active.embeddings[0].extractor, embedding: visual.embedding } : null,
+        text: trimmedQuery,
+        textWeight,
+        fusion: fusionMode,
+        threshold: filterThreshold,
+        calibration: scoreScale,
+        filters,
+      };
+      const matches = toResults(visual?.scores ?? [], {
+        ...search,
+        filter,
+        textIndex,
+        productsById,
+        distribution: active.distribution,
+        variantClusters: active.variantClusters,
+        hasVisual: visual !== null,
+      });
 
       setSimilarProducts(matches);
-      requestAnimationFrame(() => {
-        resultsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
-      });
+      setLastSearch(search);
+      setQueryProfile(queryImage ? describeQuery(queryImage, queryRegion, active) : null);
+      setHasSearched(true);
+      if (scrollToResults) {
+        requestAnimationFrame(() => {
+          resultsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        });
+      }
+      return { search, results: matches };
     } catch (err) {
+      if (isAbortError(err)) {
+        return null;
+      }
       console.error(err);
       setError('Error while comparing products. Please try a different image.');
+      return null;
     } finally {
-      setLoading(false);
+      if (searchControllerRef.current === controller) {
+        searchControllerRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  const resetFeedback = () => {
+    setJudgments(new Map());
+    setFeedbackBase(null);
+    setRefinedQuery(null);
+  };
+
+  // Toggles a good/bad mark, refines the original query with every mark so far and re-ranks. Each mark is also
+  // stored as a labelled pair; clearing a mark deletes it.
+  const judgeResult = async (product: ProductResult, judgment: Judgment) => {
+    if (!lastSearch || !activeSessionId) {
+      return;
+    }
+    const next = new Map(judgments);
+    const cleared = next.get(product.id) === judgment;
+    if (cleared) {
+      next.delete(product.id);
+    } else {
+      next.set(product.id, judgment);
+    }
+    const base = judgments.size > 0 ? feedbackBase : lastSearch.query;
+    const refinement = next.size > 0 ? refineQuery(base, catalog.embeddings, next) : null;
+    setJudgments(next);
+    setFeedbackBase(next.size > 0 ? base : null);
+    setRefinedQuery(refinement);
+    runSearch({ refinement });
+
+    const id = pairId(activeSessionId, product.id);
+    try {
+      if (cleared) {
+        await deleteLabelledPair(id);
+      } else {
+        await saveLabelledPair({
+          id,
+          queryId: activeSessionId,
+          catalog: catalogName,
+          query: base,
+          text: lastSearch.text,
+          productId: product.id,
+          relevant: judgment === 'relevant',
+          similarity: product.similarity,
+          judgedAt: Date.now(),
+        });
+      }
+      setLabelledPairCount((await listLabelledPairs()).length);
+    } catch (err) {
+      console.warn('Labelled pairs unavailable', err);
+    }
+  };
+
+  const exportLabelledPairs = async (format: 'csv' | 'json') => {
+    try {
+      const pairs = await listLabelledPairs();
+      const fileName = `labelled-pairs-${new Date().toISOString().slice(0, 10)}.${format}`;
+      if (format === 'csv') {
+        downloadText(pairsToCsv(pairs), 'text/csv', fileName);
+      } else {
+        downloadText(pairsToJson(pairs), 'application/json', fileName);
+      }
+    } catch (err) {
+      console.error(err);
+      setError('Could not read the saved judgments');
+    }
+  };
+
+  const clearLabelledPairHistory = async () => {
+    try {
+      await clearLabelledPairs();
+      setLabelledPairCount(0);
+    } catch (err) {
+      console.warn('Labelled pairs unavailable', err);
+    }
+  };
+
+  // Searches started from the search button are saved to the history; re-runs from control changes are not.
+  const handleSearch = async () => {
+    setScoreBaseline(null);
+    // A shared link in the address bar no longer describes what is on screen.
+    replaceSearchParams(clearSharedSearchParams(new URLSearchParams(window.location.search)));
+    resetFeedback();
+    const outcome = await runSearch({ scrollToResults: true, refinement: null });
+    if (!outcome) {
+      return;
+    }
+    const session: SearchSession = {
+      ...outcome.search,
+      id: newSessionId(),
+      createdAt: Date.now(),
+      thumbnail: imageElement ? createThumbnail(imageElement, region) : (storedQuery?.thumbnail ?? null),
+      results: outcome.results.map(({ id, name, similarity }) => ({ id, name, similarity })),
+    };
+    setActiveSessionId(session.id);
+    try {
+      await saveSession(session);
+      setSessions(await listSessions());
+    } catch (err) {
+      console.warn('Search history unavailable', err);
+    }
+  };
+
+  // Shows a saved or shared search: restores its controls and re-ranks from the stored vector. `data` and
+  // `indexFile` are passed in because a catalog that has just loaded is not in state yet. It counts as a search, so
+  // a newer one supersedes it while the worker is still fitting the distribution.
+  const openSearch = async (
+    search: SharedSearch,
+    data: Product[],
+    indexFile: AnnIndexFile | null,
+    thumbnail: string | null,
+    variantClusters: number[][] | null = null,
+  ) => {
+    cancelSearch();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+    try {
+      const masked = search.query ? isMaskedExtractor(getExtractor(search.query.extractor)) : maskBackground;
+      const prepared = prepareCatalog(data, indexFile, masked);
+      if (!prepared) {
+        throw new Error(`The "${search.catalog}" catalogue has no ${masked ? 'masked' : 'plain'} vectors for this search`);
+      }
+      const active = { ...(await withDistribution(prepared, workerRef.current)), variantClusters };
+      if (controller.signal.aborted) {
+        return;
+      }
+      const results = replaySearch(search, active, data);
+      revokeRemoteObjectUrl();
+      setCatalog(active);
+      setMaskBackground(masked);
+      setUploadedImage(null);
+      setImageElement(null);
+      setRegion(null);
+      setStoredQuery(search.query ? { query: search.query, thumbnail } : null);
+      resetFeedback();
+      setTextQuery(search.text);
+      setTextWeight(search.textWeight);
+      setFusionMode(search.fusion);
+      setFilterThreshold(search.threshold);
+      setCalibration(search.calibration);
+      setFacetFilters(search.filters);
+      setSimilarProducts(results);
+      setLastSearch(search);
+      setScoreBaseline(null);
+      setQueryProfile(null);
+      setHasSearched(true);
+      setError(null);
+    } catch (err) {
+      // The worker is terminated when the catalog changes; that is not this search failing.
+      if (isAbortError(err)) {
+        return;
+      }
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not reopen this search');
+    } finally {
+      if (searchControllerRef.current === controller) {
+        searchControllerRef.current = null;
+      }
+    }
+  };
+
+  const openSession = (session: SearchSession) => {
+    setActiveSessionId(session.id);
+    if (session.catalog !== catalogName) {
+      selectCatalog(session.catalog, session);
+      return;
     }
+    replaceSearchParams(
+      filtersToSearchParams(session.filters, clearSharedSearchParams(new URLSearchParams(window.location.search))),
+    );
+    openSearch(session, products, annIndexFile, session.thumbnail, catalog.variantClusters);
+  };
+
+  const removeSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setSessions(await listSessions());
+    } catch (err) {
+      console.warn('Search history unavailable', err);
+    }
+  };
+
+  const clearHistory = async () => {
+    try {
+      await clearSessions();
+      setSessions([]);
+    } catch (err) {
+      console.warn('Search history unavailable', err);
+    }
+  };
+
+  const permalink =
+    lastSearch && typeof window !== 'undefined'
+      ? `${window.location.origin}${window.location.pathname}?${sharedSearchToParams(lastSearch)}`
+      : null;
+
+  const copyPermalink = async () => {
+    if (!permalink) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(permalink);
+      setCopiedLink(permalink);
+    } catch {
+      // Clipboard access needs a secure context and permission; let the user copy it by hand.
+      window.prompt('Copy this link', permalink);
+    }
+  };
+
+  // Only the scale changes, not the ranking; the threshold now applies to the new scores.
+  const updateCalibration = (next: CalibrationMethod) => {
+    setCalibration(next);
+    if (hasSearched) {
+      runSearch({ calibration: next });
+    }
+  };
+
+  const updateFilters = (next: FacetFilters) => {
+    setFacetFilters(next);
+    replaceSearchParams(filtersToSearchParams(next, new URLSearchParams(window.location.search)));
+    if (hasSearched) {
+      runSearch({ filters: next });
+    }
+  };
+
+  // Judgments were made against the old crop, so they are dropped.
+  const updateRegion = (next: SourceRegion | null) => {
+    setRegion(next);
+    resetFeedback();
+    if (hasSearched) {
+      runSearch({ region: next, refinement: null });
+    }
+  };
+
+  // Swaps the catalog vectors in place; after a search, the current scores become the baseline the re-run is
+  // compared against. A feedback refinement lives in the other vector space and is dropped.
+  const toggleBackgroundMask = async () => {
+    const prepared = prepareCatalog(products, annIndexFile, !maskBackground);
+    if (!prepared) {
+      return;
+    }
+    let next: ActiveCatalog;
+    try {
+      next = await withDistribution(prepared, workerRef.current);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error(err);
+        setError('Could not switch background masking for this catalogue');
+      }
+      return;
+    }
+    resetFeedback();
+    const active = { ...next, variantClusters: catalog.variantClusters };
+    setMaskBackground(!maskBackground);
+    setCatalog(active);
+    if (hasSearched) {
+      setScoreBaseline(new Map(similarProducts.map((product) => [product.id, product.similarity])));
+      runSearch({ active, refinement: null });
+    }
+  };
+
+  // Clusters come from the server, which also compares image hashes; they are fetched again on every switch-on so
+  // catalogue edits are picked up.
+  const toggleVariantGrouping = async () => {
+    let variantClusters: number[][] | null = null;
+    if (!catalog.variantClusters) {
+      setLoadingVariants(true);
+      try {
+        const response = await fetch(`/api/catalogs/${encodeURIComponent(catalogName)}/duplicates`);
+        if (!response.ok) {
+          throw new Error(`Duplicate analysis failed with status ${response.status}`);
+        }
+        const report = (await response.json()) as { clusters: { ids: number[] }[] };
+        variantClusters = report.clusters.map((cluster) => cluster.ids);
+      } catch (err) {
+        console.error(err);
+        setError('Could not load duplicate groups for this catalogue');
+        return;
+      } finally {
+        setLoadingVariants(false);
+      }
+    }
+    const active = { ...catalog, variantClusters };
+    setCatalog(active);
+    if (hasSearched) {
+      runSearch({ active });
+    }
+  };
+
+  // Results, facets and masking belong to the previous catalog; the query image and text are kept for a re-run.
+  // `pending` is a history session from the new catalog, opened as soon as it has loaded.
+  const selectCatalog = (name: string, pending: SearchSession | null = null) => {
+    if (name === catalogName) {
+      return;
+    }
+    cancelSearch();
+    setCatalogName(name);
+    setProducts([]);
+    setAnnIndexFile(null);
+    setCatalog(EMPTY_CATALOG);
+    setMaskBackground(false);
+    setSimilarProducts([]);
+    setScoreBaseline(null);
+    setQueryProfile(null);
+    setHasSearched(false);
+    setFacetFilters(EMPTY_FILTERS);
+    setLastSearch(null);
+    resetFeedback();
+    setPendingSession(pending);
+    setError(null);
+    replaceSearchParams(
+      catalogToSearchParams(
+        name,
+        filtersToSearchParams(
+          pending?.filters ?? EMPTY_FILTERS,
+          clearSharedSearchParams(new URLSearchParams(window.location.search)),
+        ),
+      ),
+    );
+  };
+
+  // Proposes a box from a ~128px copy; full-resolution pixels add nothing to a coarse heuristic.
+  const detectRegion = async () => {
+    if (!imageElement) {
+      return;
+    }
+    const scale = Math.min(1, 128 / Math.max(imageElement.naturalWidth, imageElement.naturalHeight));
+    const bitmap = await createImageBitmap(imageElement, {
+      resizeWidth: Math.max(1, Math.round(imageElement.naturalWidth * scale)),
+      resizeHeight: Math.max(1, Math.round(imageElement.naturalHeight * scale)),
+      resizeQuality: 'medium',
+    });
+    try {
+      const proposal = proposeSalientRegion(canvasDecoder.decode(bitmap));
+      updateRegion(proposal === FULL_REGION ? null : proposal);
+    } finally {
+      bitmap.close();
+    }
+  };
+
+  const toggleFacet = (key: 'categories' | 'tags', value: string) => {
+    const current = facetFilters[key];
+    updateFilters({
+      ...facetFilters,
+      [key]: current.includes(value) ? current.filter((entry) => entry !== value) : [...current, value],
+    });
   };
 
   const clearSearch = () => {
+    cancelSearch();
     setUploadedImage(null);
+    setRegion(null);
     setImageElement(null);
     setSimilarProducts([]);
+    setScoreBaseline(null);
+    setQueryProfile(null);
+    setHasSearched(false);
+    setStoredQuery(null);
+    resetFeedback();
+    setLastSearch(null);
+    setActiveSessionId(null);
     setError(null);
     revokeRemoteObjectUrl();
+    replaceSearchParams(clearSharedSearchParams(new URLSearchParams(window.location.search)));
     if (fileInputRef.current) fileInputRef.current.value = '';
     if (urlInputRef.current) urlInputRef.current.value = '';
   };
@@ -267,7 +1192,9 @@ export default function Home() {
   let helperMessage = 'Upload an image or paste a URL to begin';
   if (loading) {
     helperMessage = '🔄 Analyzing image…';
-  } else if (uploadedImage) {
+  } else if (hasSearched) {
+    helperMessage = 'No products match your threshold and filters';
+  } else if (uploadedImage || storedQuery || textQuery.trim()) {
     helperMessage = 'Press “Search” to find similar products';
   }
 
@@ -284,10 +1211,32 @@ export default function Home() {
               <h1 className="text-xl font-semibold text-white">Visual Product Matcher</h1>
             </div>
           </div>
-          <p className="text-xs text-slate-400">Assessment-ready demo · Fully client-side</p>
+          <div className="flex items-center gap-4">
+            <p className="hidden text-xs text-slate-400 sm:block">Assessment-ready demo · Matching in the browser and via API</p>
+            <button
+              type="button"
+              onClick={() => setHistoryOpen(true)}
+              className="rounded-full border border-white/15 px-4 py-2 text-xs font-semibold text-indigo-100 transition hover:border-white/40"
+            >
+              History{sessions.length > 0 ? ` (${sessions.length})` : ''}
+            </button>
+          </div>
         </div>
       </header>
 
+      <SearchHistory
+        open={historyOpen}
+        sessions={sessions}
+        activeId={activeSessionId}
+        onOpen={(session) => {
+          setHistoryOpen(false);
+          openSession(session);
+        }}
+        onDelete={removeSession}
+        onClear={clearHistory}
+        onClose={() => setHistoryOpen(false)}
+      />
+
       <main className="mx-auto max-w-6xl px-6 pb-20 pt-12">
         <section className="relative overflow-hidden rounded-3xl border border-white/10 bg-linear-to-br from-indigo-600/40 via-purple-600/30 to-blue-500/20 px-6 py-10 text-slate-50 shadow-[0_25px_60px_-30px_rgba(30,64,175,0.65)] sm:px-10">
           <div className="absolute inset-0 -z-10 opacity-40" aria-hidden="true">
@@ -304,7 +1253,7 @@ export default function Home() {
                 Drop an image. Discover matching products in seconds.
               </h2>
               <p className="mt-5 mx-auto max-w-xl text-base leading-relaxed text-indigo-100/90 lg:mx-0">
-                Compare any product shot against a curated catalogue of 52 real items. We blend colour histograms with cosine similarity to surface visually similar recommendations without heavy infrastructure.
+                Compare any product shot against {products.length > 0 ? `a curated catalogue of ${products.length} real items` : 'a curated catalogue'}. Colour and layout vectors are ranked by cosine similarity in a Web Worker, and the match API runs the same search on the server.
               </p>
               <div className="mt-8 flex flex-wrap items-center justify-center gap-4 lg:justify-start">
                 <button
@@ -317,16 +1266,16 @@ export default function Home() {
                 </button>
                 <button
                   type="button"
-                  onClick={handleSearch}
-                  disabled={!uploadedImage || loading}
+                  onClick={loading ? cancelSearch : handleSearch}
+                  disabled={!uploadedImage && !storedQuery && !textQuery.trim() && !loading}
                   className="flex items-center gap-2 rounded-full border border-white/30 px-6 py-3 text-sm font-semibold text-white transition hover:border-white disabled:cursor-not-allowed disabled:border-white/10 disabled:text-white/50"
                 >
-                  {loading ? 'Searching…' : 'Run Match Search'}
+                  {loading ? 'Cancel search' : 'Run Match Search'}
                 </button>
-                <p className="text-sm text-indigo-100/80">Drag & drop supported · URL imports welcome</p>
+                <p className="text-sm text-indigo-100/80">Drag & drop, paste or camera · URL imports welcome</p>
               </div>
               <div className="mt-10 grid gap-4 text-sm text-indigo-100/85 sm:grid-cols-3">
-                {statHighlights.map((stat) => (
+                {statHighlights(products.length).map((stat) => (
                   <div key={stat.label} className="rounded-2xl border border-white/15 bg-white/10 px-4 py-3">
                     <p className="text-[0.7rem] uppercase tracking-[0.28em] text-indigo-100/70">{stat.label}</p>
                     <p className="mt-2 text-base font-semibold text-white/95">{stat.value}</p>
@@ -337,7 +1286,41 @@ export default function Home() {
 
             <div className="rounded-3xl border border-white/15 bg-slate-950/60 p-6 shadow-[inset_0_1px_0_rgba(255,255,255,0.08)] backdrop-blur">
               <div className="space-y-5">
-                <div className="rounded-2xl border border-dashed border-indigo-400/50 bg-indigo-500/10 p-6 text-center transition hover:border-indigo-300/80">
+                {catalogs.length > 1 && (
+                  <div>
+                    <label htmlFor="catalog-select" className="block text-xs font-semibold uppercase tracking-[0.3em] text-indigo-100/80">
+                      Catalogue
+                    </label>
+                    <select
+                      id="catalog-select"
+                      value={catalogName}
+                      onChange={(event) => selectCatalog(event.target.value)}
+                      className="mt-3 w-full rounded-xl border border-white/10 bg-slate-900 px-4 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                    >
+                      {!catalogSummary && <option value={catalogName}>{catalogName} (unavailable)</option>}
+                      {catalogs.map((entry) => (
+                        <option key={entry.name} value={entry.name}>
+                          {entry.title} · {entry.productCount} products
+                        </option>
+                      ))}
+                    </select>
+                    {catalogSummary?.description && (
+                      <p className="mt-2 text-xs text-indigo-100/70">{catalogSummary.description}</p>
+                    )}
+                  </div>
+                )}
+
+                <div
+                  onDragEnter={handleDragOver}
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  onDrop={handleDrop}
+                  className={`rounded-2xl border border-dashed p-6 text-center transition ${
+                    dragActive
+                      ? 'border-indigo-200 bg-indigo-400/25'
+                      : 'border-indigo-400/50 bg-indigo-500/10 hover:border-indigo-300/80'
+                  }`}
+                >
                   <label htmlFor="file-upload" className="sr-only">
                     Upload image file
                   </label>
@@ -349,17 +1332,34 @@ export default function Home() {
                     onChange={handleFileUpload}
                     className="hidden"
                   />
-                  <p className="text-sm font-medium text-indigo-100">Drop your product photo here</p>
-                  <p className="mt-2 text-xs text-indigo-100/70">PNG, JPG up to 10MB</p>
-                  <button
-                    type="button"
-                    onClick={() => fileInputRef.current?.click()}
-                    className="mt-4 inline-flex items-center gap-2 rounded-full bg-white/20 px-4 py-2 text-xs font-semibold text-white transition hover:bg-white/30"
-                  >
-                    Browse files
-                  </button>
+                  <p className="text-sm font-medium text-indigo-100">
+                    {dragActive ? 'Release to use this image' : 'Drop your product photo here'}
+                  </p>
+                  <p className="mt-2 text-xs text-indigo-100/70">PNG, JPG up to 10MB · or paste with Ctrl+V</p>
+                  <div className="mt-4 flex flex-wrap justify-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => fileInputRef.current?.click()}
+                      className="inline-flex items-center gap-2 rounded-full bg-white/20 px-4 py-2 text-xs font-semibold text-white transition hover:bg-white/30"
+                    >
+                      Browse files
+                    </button>
+                    {!cameraOpen && (
+                      <button
+                        type="button"
+                        onClick={() => setCameraOpen(true)}
+                        className="inline-flex items-center gap-2 rounded-full bg-white/20 px-4 py-2 text-xs font-semibold text-white transition hover:bg-white/30"
+                      >
+                        Use camera
+                      </button>
+                    )}
+                  </div>
                 </div>
 
+                {cameraOpen && (
+                  <CameraCapture onCapture={handleCameraFrame} busy={loading} onClose={() => setCameraOpen(false)} />
+                )}
+
                 <div>
                   <label htmlFor="url-input" className="block text-xs font-semibold uppercase tracking-[0.3em] text-indigo-100/80">
                     Or paste an image URL
@@ -382,13 +1382,169 @@ export default function Home() {
                   </div>
                 </div>
 
+                <div>
+                  <label htmlFor="text-query" className="block text-xs font-semibold uppercase tracking-[0.3em] text-indigo-100/80">
+                    Describe it (optional)
+                  </label>
+                  <input
+                    id="text-query"
+                    type="search"
+                    value={textQuery}
+                    onChange={(event) => setTextQuery(event.target.value)}
+                    placeholder="red running shoes"
+                    className="mt-3 w-full rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                  />
+                  {textQuery.trim() && (
+                    <div className="mt-3 space-y-2">
+                      <label htmlFor="text-weight" className="flex items-center justify-between text-[0.7rem] uppercase tracking-[0.25em] text-indigo-100/70">
+                        <span>Text weight</span>
+                        <span className="rounded-full bg-white/10 px-2 py-0.5 text-indigo-100">{textWeight}%</span>
+                      </label>
+                      <input
+                        id="text-weight"
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={textWeight}
+                        onChange={(event) => setTextWeight(Number(event.target.value))}
+                        className="w-full accent-indigo-300"
+                      />
+                      <div className="flex gap-2 text-xs" role="radiogroup" aria-label="Score fusion">
+                        {(
+                          [
+                            ['weighted', 'Weighted blend'],
+                            ['rrf', 'Reciprocal rank'],
+                          ] as const
+                        ).map(([mode, label]) => (
+                          <button
+                            key={mode}
+                            type="button"
+                            role="radio"
+                            aria-checked={fusionMode === mode}
+                            onClick={() => setFusionMode(mode)}
+                            className={`rounded-full border px-3 py-1 font-semibold transition ${
+                              fusionMode === mode
+                                ? 'border-indigo-300 bg-indigo-400/30 text-white'
+                                : 'border-white/15 text-indigo-100/70 hover:border-white/40'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
                 {uploadedImage && (
                   <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
-                    <p className="mb-2 text-xs font-semibold uppercase tracking-[0.25em] text-indigo-100/70">Preview</p>
-                    <img src={uploadedImage} alt="Uploaded preview" className="h-48 w-full rounded-xl object-cover" />
+                    <div className="mb-2 flex items-center justify-between gap-2">
+                      <p className="text-xs font-semibold uppercase tracking-[0.25em] text-indigo-100/70">Preview</p>
+                      <div className="flex gap-2 text-[0.7rem]">
+                        <button
+                          type="button"
+                          onClick={detectRegion}
+                          disabled={!imageElement}
+                          className="rounded-full border border-white/15 px-3 py-1 font-semibold text-indigo-100 transition hover:border-white/40 disabled:opacity-50"
+                        >
+                          Auto-detect product
+                        </button>
+                        {region && (
+                          <button
+                            type="button"
+                            onClick={() => updateRegion(null)}
+                            className="rounded-full border border-white/15 px-3 py-1 font-semibold text-indigo-100 transition hover:border-white/40"
+                          >
+                            Whole image
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <RegionSelector src={uploadedImage} region={region} onChange={updateRegion} />
+                    <p className="mt-2 text-[0.7rem] text-indigo-100/60">
+                      Drag a box around the product to match only that area.
+                    </p>
                   </div>
                 )}
 
+                {storedQuery && (
+                  <div className="flex items-center gap-3 rounded-2xl border border-white/10 bg-white/5 p-3">
+                    {storedQuery.thumbnail ? (
+                      <img src={storedQuery.thumbnail} alt="Saved query" className="h-16 w-16 rounded-xl object-cover" />
+                    ) : (
+                      <span className="flex h-16 w-16 items-center justify-center rounded-xl bg-white/10 text-2xl">🔗</span>
+                    )}
+                    <div className="text-xs text-indigo-100/80">
+                      <p className="font-semibold uppercase tracking-[0.25em] text-indigo-100/70">Saved query</p>
+                      <p className="mt-1">
+                        Ranking from the stored {storedQuery.query.extractor} vector. Upload an image to start a new search.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <label className="flex items-center justify-between gap-3 text-xs font-semibold uppercase tracking-[0.3em] text-indigo-100/80">
+                    <span>Ignore background</span>
+                    <input
+                      type="checkbox"
+                      role="switch"
+                      checked={maskBackground}
+                      onChange={toggleBackgroundMask}
+                      disabled={!maskingAvailable || storedQuery !== null}
+                      className="h-4 w-4 accent-indigo-300 disabled:opacity-50"
+                    />
+                  </label>
+                  <p className="mt-2 text-xs text-indigo-100/70">
+                    {storedQuery
+                      ? 'Fixed by the saved query vector.'
+                      : maskingAvailable
+                      ? 'Match on the product only, skipping a plain studio backdrop.'
+                      : 'Needs masked catalogue vectors: npm run catalog:embed -- --extractor color-stats-masked@1 --fetch'}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="flex items-center justify-between gap-3 text-xs font-semibold uppercase tracking-[0.3em] text-indigo-100/80">
+                    <span>Group duplicates</span>
+                    <input
+                      type="checkbox"
+                      role="switch"
+                      checked={catalog.variantClusters !== null}
+                      onChange={toggleVariantGrouping}
+                      disabled={loadingVariants || catalog.embeddings.length === 0}
+                      className="h-4 w-4 accent-indigo-300 disabled:opacity-50"
+                    />
+                  </label>
+                  <p className="mt-2 text-xs text-indigo-100/70">
+                    {loadingVariants
+                      ? 'Comparing catalogue images…'
+                      : 'Show products that share a photo or near-identical features as one card.'}
+                  </p>
+                </div>
+
+                <div>
+                  <label htmlFor="calibration-select" className="block text-xs font-semibold uppercase tracking-[0.3em] text-indigo-100/80">
+                    Score scale
+                  </label>
+                  <select
+                    id="calibration-select"
+                    value={calibration}
+                    onChange={(event) => updateCalibration(event.target.value as CalibrationMethod)}
+                    className="mt-3 w-full rounded-xl border border-white/10 bg-slate-900 px-4 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                  >
+                    {CALIBRATION_METHODS.map((method) => (
+                      <option key={method.value} value={method.value}>
+                        {method.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-2 text-xs text-indigo-100/70">
+                    {CALIBRATION_METHODS.find((method) => method.value === calibration)?.description}
+                    {calibration !== 'none' && ', fitted on this catalogue.'}
+                  </p>
+                </div>
+
                 <div>
                   <label htmlFor="threshold-input" className="flex items-center justify-between text-xs font-semibold uppercase tracking-[0.3em] text-indigo-100/80">
                     <span>Similarity Threshold</span>
@@ -412,7 +1568,7 @@ export default function Home() {
                   </div>
                 )}
 
-                {uploadedImage && (
+                {(uploadedImage || storedQuery) && (
                   <button
                     type="button"
                     onClick={clearSearch}
@@ -489,8 +1645,138 @@ export default function Home() {
           <div className="flex flex-wrap items-center justify-between gap-4 text-center md:text-left">
             <h2 className="text-2xl font-semibold text-white md:flex-1">Closest matches</h2>
             <p className="text-sm text-slate-300/80 md:flex-none">Showing up to ten products above your threshold.</p>
+            {permalink && hasSearched && (
+              <button
+                type="button"
+                onClick={copyPermalink}
+                title="The link carries the query vector, so it reproduces these results without the image"
+                className="rounded-full border border-white/15 px-4 py-2 text-xs font-semibold text-indigo-100 transition hover:border-white/40"
+              >
+                {copiedLink === permalink ? 'Link copied' : 'Copy link to results'}
+              </button>
+            )}
           </div>
 
+          {products.length > 0 && (
+            <div className="mt-6 space-y-4 rounded-3xl border border-white/10 bg-slate-900/50 p-5">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="mr-2 text-xs font-semibold uppercase tracking-[0.25em] text-indigo-100/70">Category</span>
+                {facets.categories.map((facet) => {
+                  const active = facetFilters.categories.includes(facet.value);
+                  return (
+                    <button
+                      key={facet.value}
+                      type="button"
+                      aria-pressed={active}
+                      onClick={() => toggleFacet('categories', facet.value)}
+                      className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                        active ? 'border-indigo-300 bg-indigo-400/30 text-white' : 'border-white/15 text-indigo-100/80 hover:border-white/40'
+                      }`}
+                    >
+                      {facet.value} <span className="text-indigo-100/60">({facet.count})</span>
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="mr-2 text-xs font-semibold uppercase tracking-[0.25em] text-indigo-100/70">Tags</span>
+                {facets.tags
+                  .filter((facet, index) => index < 12 || facetFilters.tags.includes(facet.value))
+                  .map((facet) => {
+                    const active = facetFilters.tags.includes(facet.value);
+                    return (
+                      <button
+                        key={facet.value}
+                        type="button"
+                        aria-pressed={active}
+                        onClick={() => toggleFacet('tags', facet.value)}
+                        className={`rounded-full border px-3 py-1 text-xs transition ${
+                          active ? 'border-indigo-300 bg-indigo-400/30 text-white' : 'border-white/10 text-indigo-100/70 hover:border-white/40'
+                        }`}
+                      >
+                        {facet.value} <span className="text-indigo-100/50">({facet.count})</span>
+                      </button>
+                    );
+                  })}
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-xs text-indigo-100/80">
+                <span className="mr-2 font-semibold uppercase tracking-[0.25em] text-indigo-100/70">Price</span>
+                {(['minPrice', 'maxPrice'] as const).map((key) => (
+                  <label key={key} className="flex items-center gap-2">
+                    <span>{key === 'minPrice' ? 'Min' : 'Max'} $</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={facetFilters[key] ?? ''}
+                      placeholder={String(key === 'minPrice' ? facets.price.min : facets.price.max)}
+                      onChange={(event) => {
+                        const value = event.target.value === '' ? null : Number(event.target.value);
+                        updateFilters({ ...facetFilters, [key]: value !== null && Number.isFinite(value) ? value : null });
+                      }}
+                      className="w-24 rounded-lg border border-white/10 bg-white/5 px-3 py-1 text-sm text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                    />
+                  </label>
+                ))}
+                {hasActiveFilters(facetFilters) && (
+                  <button
+                    type="button"
+                    onClick={() => updateFilters(EMPTY_FILTERS)}
+                    className="ml-auto rounded-full border border-white/15 px-3 py-1 font-semibold text-white transition hover:border-white/40"
+                  >
+                    Reset filters
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {(judgments.size > 0 || labelledPairCount > 0) && (
+            <div className="mt-6 flex flex-wrap items-center gap-3 rounded-3xl border border-white/10 bg-slate-900/50 p-5 text-xs text-indigo-100/80">
+              {judgments.size > 0 && (
+                <>
+                  <span>
+                    Refined with {[...judgments.values()].filter((judgment) => judgment === 'relevant').length} liked ·{' '}
+                    {[...judgments.values()].filter((judgment) => judgment === 'irrelevant').length} disliked
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      resetFeedback();
+                      runSearch({ refinement: null });
+                    }}
+                    className="rounded-full border border-white/15 px-3 py-1 font-semibold text-white transition hover:border-white/40"
+                  >
+                    Undo refinement
+                  </button>
+                </>
+              )}
+              {labelledPairCount > 0 && (
+                <div className="ml-auto flex flex-wrap items-center gap-2">
+                  <span>
+                    {labelledPairCount} labelled {labelledPairCount === 1 ? 'pair' : 'pairs'}
+                  </span>
+                  {(['csv', 'json'] as const).map((format) => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => exportLabelledPairs(format)}
+                      className="rounded-full border border-white/15 px-3 py-1 font-semibold text-white transition hover:border-white/40"
+                    >
+                      Export {format.toUpperCase()}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={clearLabelledPairHistory}
+                    className="rounded-full border border-white/15 px-3 py-1 font-semibold text-white transition hover:border-red-300/60"
+                  >
+                    Clear
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           {similarProducts.length === 0 ? (
             <div className="mt-10 rounded-3xl border border-dashed border-white/15 bg-slate-900/50 px-8 py-16 text-center">
               <p className="text-lg font-medium text-white/90">{helperMessage}</p>
@@ -505,7 +1791,7 @@ export default function Home() {
                 >
                   <div className="relative h-48 overflow-hidden">
                     <img
-                      src={product.image}
+                      src={thumbnailUrl(product.image)}
                       alt={product.name}
                       className="h-full w-full object-cover transition duration-500 group-hover:scale-105"
                       onError={(event) => {
@@ -515,7 +1801,20 @@ export default function Home() {
                     />
                     <span className="absolute left-4 top-4 rounded-full bg-slate-950/70 px-3 py-1 text-xs font-semibold text-indigo-100">
                       {Math.round(product.similarity)}% match
+                      {product.rawSimilarity !== undefined && (
+                        <span className="ml-1 font-normal text-indigo-100/70">· cosine {product.rawSimilarity.toFixed(1)}</span>
+                      )}
                     </span>
+                    {scoreBaseline && (
+                      <span className="absolute right-4 top-4 rounded-full bg-slate-950/70 px-3 py-1 text-[0.7rem] font-medium text-indigo-100/90">
+                        {scoreDelta(product, scoreBaseline)}
+                      </span>
+                    )}
+                    {product.textScore !== undefined && (
+                      <span className="absolute bottom-4 left-4 rounded-full bg-slate-950/70 px-3 py-1 text-[0.7rem] font-medium text-indigo-100/90">
+                        Visual {Math.round(product.visualScore ?? 0)} · Text {Math.round(product.textScore)}
+                      </span>
+                    )}
                   </div>
                   <div className="p-6">
                     <div className="flex items-start justify-between gap-3">
@@ -533,12 +1832,82 @@ export default function Home() {
                         </span>
                       ))}
                     </div>
+                    <div className="mt-4 flex items-center gap-2 text-xs text-indigo-100/70">
+                      <span>Good match?</span>
+                      {(
+                        [
+                          ['relevant', '👍', 'Mark as a good match'],
+                          ['irrelevant', '👎', 'Mark as a bad match'],
+                        ] as const
+                      ).map(([judgment, icon, label]) => (
+                        <button
+                          key={judgment}
+                          type="button"
+                          aria-pressed={judgments.get(product.id) === judgment}
+                          aria-label={label}
+                          title={label}
+                          onClick={() => judgeResult(product, judgment)}
+                          disabled={loading}
+                          className={`rounded-full border px-3 py-1 transition disabled:opacity-50 ${
+                            judgments.get(product.id) === judgment
+                              ? 'border-indigo-300 bg-indigo-400/30'
+                              : 'border-white/15 hover:border-white/40'
+                          }`}
+                        >
+                          {icon}
+                        </button>
+                      ))}
+                    </div>
+                    {product.variants && product.variants.length > 0 && (
+                      <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-3">
+                        <p className="text-[0.7rem] font-semibold uppercase tracking-[0.25em] text-indigo-100/70">
+                          {product.variants.length} {product.variants.length === 1 ? 'variant' : 'variants'}
+                        </p>
+                        <ul className="mt-2 space-y-2">
+                          {product.variants.map((variant) => (
+                            <li key={variant.id} className="flex items-center gap-3 text-xs text-slate-200/85">
+                              <img
+                                src={productThumbnailUrl(variant.image, 96)}
+                                alt=""
+                                className="h-8 w-8 rounded-lg object-cover"
+                                onError={(event) => {
+                                  event.currentTarget.src = PRODUCT_IMAGE_FALLBACK;
+                                  event.currentTarget.onerror = null;
+                                }}
+                              />
+                              <span className="flex-1">{variant.name}</span>
+                              <span className="text-indigo-100/70">${variant.price}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <MatchExplanation
+                      key={maskBackground ? 'masked' : 'plain'}
+                      queryProfile={queryProfile}
+                      productImage={thumbnailUrl(product.image)}
+                      breakdown={product.breakdown}
+                      maskBackground={maskBackground}
+                    />
                   </div>
                 </article>
               ))}
             </div>
           )}
         </section>
+
+        {productEmbeddings.length > 0 && (
+          <BatchMatcher
+            extractor={productEmbeddings[0].extractor}
+            match={(image, topK, signal) =>
+              // Batch reports list every product id, so duplicate grouping is not applied to them.
+              matchImage(image, topK, facetPredicate(facetFilters, productsById), signal, null, {
+                ...catalog,
+                variantClusters: null,
+              }).then(({ scores }) => scores)
+            }
+          />
+        )}
       </main>
 
       <footer className="border-t border-white/10 bg-slate-950/90">
@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { BatchQuery, BatchResult } from '@/lib/batchMatching';
+import { batchToCsv, batchToJson, runBatch } from '@/lib/batchMatching';
+import { downloadText } from '@/lib/download';
+import type { SimilarityScore } from '@/lib/imageMatching';
+import { normalizeImageUrl } from '@/lib/normalizeImageUrl';
+
+type QuerySource = { kind: 'file'; file: File } | { kind: 'url'; url: string };
+
+interface BatchMatcherProps {
+  // Catalog extractor id, recorded in the JSON report.
+  extractor: string;
+  // Ranks one query; the page supplies it so batches share the match worker and the active facet filters.
+  match: (image: ImageBitmap, topK: number, signal: AbortSignal) => Promise<SimilarityScore[]>;
+}
+
+const TOP_K_OPTIONS = [3, 5, 10, 20];
+
+// Files are read locally; URLs always go through the proxy, since a batch has no way to surface per-item CORS
+// fallbacks.
+const loadQueryBlob = async (source: QuerySource): Promise<Blob> => {
+  if (source.kind === 'file') {
+    return source.file;
+  }
+  const response = await fetch(`/api/image-proxy?url=${encodeURIComponent(normalizeImageUrl(source.url))}`);
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(body?.error ?? `Proxy failed with status ${response.status}`);
+  }
+  return response.blob();
+};
+
+const loadQueryImage = async (source: QuerySource) => {
+  try {
+    return await createImageBitmap(await loadQueryBlob(source));
+  } catch (error) {
+    throw error instanceof DOMException ? new Error('Image could not be decoded') : error;
+  }
+};
+
+export default function BatchMatcher({ extractor, match }: BatchMatcherProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [urlList, setUrlList] = useState('');
+  const [topK, setTopK] = useState(5);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [cancelled, setCancelled] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const urls = urlList.split(/\s+/).filter(Boolean);
+  const queries: BatchQuery<QuerySource>[] = [
+    ...files.map((file) => ({ name: file.name, source: { kind: 'file' as const, file } })),
+    ...urls.map((url) => ({ name: url, source: { kind: 'url' as const, url } })),
+  ];
+
+  const startBatch = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setCancelled(false);
+    setResults([]);
+    setProgress({ completed: 0, total: queries.length });
+
+    const run = await runBatch(
+      queries,
+      async (source) => {
+        const image = await loadQueryImage(source);
+        try {
+          return await match(image, topK, controller.signal);
+        } finally {
+          image.close();
+        }
+      },
+      {
+        signal: controller.signal,
+        onProgress: (completed, total, result) => {
+          setProgress({ completed, total });
+          setResults((previous) => [...previous, result]);
+        },
+      },
+    );
+
+    if (controllerRef.current === controller) {
+      controllerRef.current = null;
+      setCancelled(run.cancelled);
+      setRunning(false);
+    }
+  };
+
+  const cancelBatch = () => controllerRef.current?.abort();
+
+  const reportName = `batch-matches-${new Date().toISOString().slice(0, 10)}`;
+
+  return (
+    <section className="mt-16 rounded-3xl border border-white/10 bg-slate-900/50 px-6 py-10 sm:px-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Batch matching</h2>
+          <p className="mt-1 text-sm text-slate-300/85">
+            Match a whole lookbook at once and download the top products for every photo.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.25em] text-indigo-100/70">
+          Top
+          <select
+            value={topK}
+            onChange={(event) => setTopK(Number(event.target.value))}
+            disabled={running}
+            className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-300"
+          >
+            {TOP_K_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-6 grid gap-4 md:grid-cols-2">
+        <div className="rounded-2xl border border-dashed border-indigo-400/50 bg-indigo-500/10 p-5 text-center">
+          <label htmlFor="batch-files" className="sr-only">
+            Batch image files
+          </label>
+          <input
+            id="batch-files"
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(event) => setFiles(Array.from(event.target.files ?? []))}
+            className="hidden"
+          />
+          <p className="text-sm font-medium text-indigo-100">
+            {files.length === 0 ? 'No files selected' : `${files.length} file${files.length === 1 ? '' : 's'} selected`}
+          </p>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={running}
+            className="mt-3 inline-flex items-center gap-2 rounded-full bg-white/20 px-4 py-2 text-xs font-semibold text-white transition hover:bg-white/30 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Choose images
+          </button>
+        </div>
+        <div>
+          <label htmlFor="batch-urls" className="block text-xs font-semibold uppercase tracking-[0.3em] text-indigo-100/80">
+            Image URLs, one per line
+          </label>
+          <textarea
+            id="batch-urls"
+            value={urlList}
+            onChange={(event) => setUrlList(event.target.value)}
+            disabled={running}
+            rows={4}
+            placeholder="https://"
+            className="mt-3 w-full rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+          />
+        </div>
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center gap-3">
+        {running ? (
+          <button
+            type="button"
+            onClick={cancelBatch}
+            className="rounded-full border border-red-300/60 px-5 py-2 text-sm font-semibold text-red-100 transition hover:border-red-200"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={startBatch}
+            disabled={queries.length === 0}
+            className="rounded-full bg-indigo-400 px-5 py-2 text-sm font-semibold text-slate-900 transition hover:bg-indigo-300 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Match {queries.length || ''} {queries.length === 1 ? 'image' : 'images'}
+          </button>
+        )}
+        {results.length > 0 && !running && (
+          <>
+            <button
+              type="button"
+              onClick={() => downloadText(batchToCsv(results), 'text/csv', `${reportName}.csv`)}
+              className="rounded-full border border-white/15 px-4 py-2 text-xs font-semibold text-white transition hover:border-white/40"
+            >
+              Download CSV
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                downloadText(batchToJson(results, { extractor, topK }), 'application/json', `${reportName}.json`)
+              }
+              className="rounded-full border border-white/15 px-4 py-2 text-xs font-semibold text-white transition hover:border-white/40"
+            >
+              Download JSON
+            </button>
+          </>
+        )}
+        {progress.total > 0 && (
+          <p className="text-xs text-indigo-100/70" role="status">
+            {progress.completed} / {progress.total} processed{cancelled ? ' · cancelled' : ''}
+          </p>
+        )}
+      </div>
+
+      {progress.total > 0 && (
+        <div className="mt-3 h-1.5 overflow-hidden rounded-full bg-white/10">
+          <div
+            className="h-full bg-indigo-300 transition-all"
+            style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full text-left text-xs text-slate-200/85">
+            <thead className="uppercase tracking-[0.2em] text-indigo-100/60">
+              <tr>
+                <th className="py-2 pr-4 font-semibold">Query</th>
+                <th className="py-2 font-semibold">Top matches (id · score)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((result, position) => (
+                <tr key={`${result.query}-${position}`} className="border-t border-white/5">
+                  <td className="max-w-56 truncate py-2 pr-4" title={result.query}>
+                    {result.query}
+                  </td>
+                  <td className="py-2">
+                    {result.error ? (
+                      <span className="text-red-200">{result.error}</span>
+                    ) : (
+                      result.matches
+                        .map((match) => `#${match.id} · ${Math.round(match.similarity)}`)
+                        .join('   ')
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
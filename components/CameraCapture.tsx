@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useEffectEvent, useRef, useState } from 'react';
+
+interface CameraCaptureProps {
+  // JPEG data URL of the current frame; `match` is true for frames grabbed by continuous matching.
+  onCapture: (frame: string, match: boolean) => void;
+  // A search is still running; continuous matching skips frames until it settles.
+  busy: boolean;
+  onClose: () => void;
+}
+
+// Frames are downscaled before they become the query; the extractors sample 48×48 anyway.
+const MAX_FRAME_SIDE = 960;
+// Time between frames while matching continuously.
+const CONTINUOUS_INTERVAL_MS = 1500;
+
+const describeCameraError = (error: unknown) => {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError') return 'Camera access was blocked. Allow it in the browser to capture a frame.';
+    if (error.name === 'NotFoundError' || error.name === 'OverconstrainedError') return 'No camera was found on this device.';
+    if (error.name === 'NotReadableError') return 'The camera is in use by another application.';
+  }
+  return 'The camera could not be started.';
+};
+
+// Live camera preview (rear camera on phones) that hands single frames, or a frame every few seconds, to the
+// matcher. The stream is stopped when the panel closes.
+export default function CameraCapture({ onCapture, busy, onClose }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [continuous, setContinuous] = useState(false);
+
+  // Only secure contexts (HTTPS or localhost) expose the camera. The panel is opened by a click, so this never runs
+  // during server rendering.
+  const supported = typeof navigator !== 'undefined' && navigator.mediaDevices?.getUserMedia !== undefined;
+
+  useEffect(() => {
+    if (!supported) {
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: 'environment' } }, audio: false })
+      .then((media) => {
+        if (cancelled) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = media;
+          video.play().catch((err) => console.warn('Camera preview did not start', err));
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          console.error(err);
+          setError(describeCameraError(err));
+        }
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [supported]);
+
+  const grabFrame = () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0 || video.videoHeight === 0) {
+      return null;
+    }
+    const scale = Math.min(1, MAX_FRAME_SIDE / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return null;
+    }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.9);
+  };
+
+  const capture = () => {
+    const frame = grabFrame();
+    if (frame) {
+      onCapture(frame, false);
+    }
+  };
+
+  const matchFrame = useEffectEvent(() => {
+    if (busy) {
+      return;
+    }
+    const frame = grabFrame();
+    if (frame) {
+      onCapture(frame, true);
+    }
+  });
+
+  useEffect(() => {
+    if (!continuous || !ready) {
+      return;
+    }
+    matchFrame();
+    const timer = window.setInterval(matchFrame, CONTINUOUS_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [continuous, ready]);
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.25em] text-indigo-100/70">Camera</p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-white/15 px-3 py-1 text-[0.7rem] font-semibold text-indigo-100 transition hover:border-white/40"
+        >
+          Close camera
+        </button>
+      </div>
+      {!supported || error ? (
+        <p className="rounded-xl border border-red-400/60 bg-red-500/10 p-3 text-xs text-red-200" role="alert">
+          {error ?? 'This browser does not expose a camera here; it needs HTTPS or localhost.'}
+        </p>
+      ) : (
+        <>
+          <video
+            ref={videoRef}
+            muted
+            playsInline
+            onLoadedData={() => setReady(true)}
+            className="w-full rounded-xl bg-black/40"
+          />
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
+            <button
+              type="button"
+              onClick={capture}
+              disabled={!ready}
+              className="rounded-full bg-white/20 px-4 py-2 text-xs font-semibold text-white transition hover:bg-white/30 disabled:opacity-50"
+            >
+              Capture frame
+            </button>
+            <label className="flex items-center gap-2 text-xs text-indigo-100/80">
+              <input
+                type="checkbox"
+                role="switch"
+                checked={continuous}
+                onChange={(event) => setContinuous(event.target.checked)}
+                disabled={!ready}
+                className="h-4 w-4 accent-indigo-300 disabled:opacity-50"
+              />
+              Match continuously
+            </label>
+          </div>
+          <p className="mt-2 text-[0.7rem] text-indigo-100/60">
+            {continuous
+              ? 'Point the camera at a product; results refresh every few seconds.'
+              : 'Capture a frame to use it as the query image.'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { canvasDecoder } from '@/lib/browserPixels';
+import type { ColorProfile } from '@/lib/colorProfile';
+import { computeColorProfile } from '@/lib/colorProfile';
+import type { ScoreContribution } from '@/lib/imageMatching';
+
+interface MatchExplanationProps {
+  // Null for text-only searches, where there is no query image to describe.
+  queryProfile: ColorProfile | null;
+  // Same-origin (proxied) product image, so its pixels can be read back.
+  productImage: string;
+  breakdown?: ScoreContribution[];
+  maskBackground: boolean;
+}
+
+// Contrast is a standard deviation of 0–1 brightness and tops out at 0.5; doubled so all bars share one scale.
+const TONES = [
+  { key: 'brightness', label: 'Brightness', scale: 1 },
+  { key: 'contrast', label: 'Contrast', scale: 2 },
+  { key: 'saturation', label: 'Saturation', scale: 1 },
+] as const;
+
+const MAX_CONTRIBUTIONS = 4;
+
+const loadProfile = (src: string, maskBackground: boolean) =>
+  new Promise<ColorProfile>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      try {
+        resolve(computeColorProfile(canvasDecoder.decode(image), { maskBackground }));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    image.onerror = () => reject(new Error('Product image could not be loaded'));
+    image.src = src;
+  });
+
+const Swatches = ({ label, profile }: { label: string; profile: ColorProfile }) => {
+  const total = profile.swatches.reduce((sum, swatch) => sum + swatch.share, 0);
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-16 shrink-0 text-[0.7rem] text-indigo-100/70">{label}</span>
+      <div className="flex h-4 flex-1 overflow-hidden rounded-full border border-white/10">
+        {profile.swatches.map(({ color, share }) => (
+          <span
+            key={color.join(',')}
+            title={`rgb(${color.join(', ')}) · ${Math.round(share * 100)}%`}
+            style={{ backgroundColor: `rgb(${color.join(',')})`, width: `${(share / total) * 100}%` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ToneBar = ({ value, className }: { value: number; className: string }) => (
+  <div className="h-1.5 overflow-hidden rounded-full bg-white/10">
+    <div className={`h-full ${className}`} style={{ width: `${Math.min(100, value * 100)}%` }} />
+  </div>
+);
+
+// Collapsed by default; the product image is only decoded the first time the panel is opened.
+export default function MatchExplanation({
+  queryProfile,
+  productImage,
+  breakdown,
+  maskBackground,
+}: MatchExplanationProps) {
+  const [productProfile, setProductProfile] = useState<ColorProfile | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [requested, setRequested] = useState(false);
+
+  const handleToggle = (event: React.SyntheticEvent<HTMLDetailsElement>) => {
+    if (!event.currentTarget.open || requested) {
+      return;
+    }
+    setRequested(true);
+    loadProfile(productImage, maskBackground)
+      .then(setProductProfile)
+      .catch((error) => {
+        console.warn(error);
+        setFailed(true);
+      });
+  };
+
+  const contributions = [...(breakdown ?? [])]
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, MAX_CONTRIBUTIONS);
+  const largest = Math.max(...contributions.map((part) => Math.abs(part.contribution)), 1);
+
+  return (
+    <details onToggle={handleToggle} className="mt-4 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-xs">
+      <summary className="cursor-pointer font-semibold text-indigo-100">Why this match?</summary>
+
+      <div className="mt-3 space-y-2">
+        {queryProfile && <Swatches label="Your image" profile={queryProfile} />}
+        {productProfile && <Swatches label="Product" profile={productProfile} />}
+        {!productProfile && (
+          <p className="text-[0.7rem] text-indigo-100/60">
+            {failed ? 'Product colours are unavailable for this image.' : 'Reading product colours…'}
+          </p>
+        )}
+      </div>
+
+      {productProfile && (
+        <div className="mt-4 space-y-2">
+          {TONES.map(({ key, label, scale }) => (
+            <div key={key}>
+              <div className="flex justify-between text-[0.7rem] text-indigo-100/70">
+                <span>{label}</span>
+                <span>
+                  {queryProfile ? `${Math.round(queryProfile[key] * scale * 100)} vs ` : ''}
+                  {Math.round(productProfile[key] * scale * 100)}
+                </span>
+              </div>
+              <div className="mt-1 space-y-0.5">
+                {queryProfile && <ToneBar value={queryProfile[key] * scale} className="bg-indigo-300" />}
+                <ToneBar value={productProfile[key] * scale} className="bg-emerald-300" />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {contributions.length > 0 && (
+        <div className="mt-4">
+          <p className="text-[0.7rem] font-semibold uppercase tracking-[0.2em] text-indigo-100/60">Score contributions</p>
+          <ul className="mt-2 space-y-1.5">
+            {contributions.map((part) => (
+              <li key={part.name} className="flex items-center gap-3">
+                <span className="w-20 shrink-0 capitalize text-indigo-100/80">{part.name}</span>
+                <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-white/10">
+                  <div
+                    className={`h-full ${part.contribution >= 0 ? 'bg-indigo-300' : 'bg-red-300'}`}
+                    style={{ width: `${(Math.abs(part.contribution) / largest) * 100}%` }}
+                  />
+                </div>
+                <span className="w-24 shrink-0 text-right text-indigo-100/70">
+                  {part.contribution >= 0 ? '+' : '−'}
+                  {Math.abs(part.contribution).toFixed(1)}
+                  {part.similarity !== undefined && ` · ${Math.round(part.similarity)}% alike`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </details>
+  );
+}
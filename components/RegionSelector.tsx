@@ -0,0 +1,103 @@
+/* eslint-disable @next/next/no-img-element */
+'use client';
+
+import { useRef, useState } from 'react';
+import type { SourceRegion } from '@/lib/pixels';
+
+interface RegionSelectorProps {
+  src: string;
+  // null means the whole image.
+  region: SourceRegion | null;
+  onChange: (region: SourceRegion) => void;
+}
+
+// Drags shorter than this share of either side are treated as stray clicks.
+const MIN_SIDE = 0.03;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Box-drawing overlay on the query preview. The image is shown uncropped at its natural aspect ratio, so fractions of
+// the displayed box map directly onto the source pixels.
+export default function RegionSelector({ src, region, onChange }: RegionSelectorProps) {
+  const [draft, setDraft] = useState<SourceRegion | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  const pointAt = (event: React.PointerEvent) => {
+    const bounds = frameRef.current?.getBoundingClientRect();
+    if (!bounds || bounds.width === 0 || bounds.height === 0) {
+      return null;
+    }
+    return {
+      x: clamp((event.clientX - bounds.left) / bounds.width),
+      y: clamp((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const boxFrom = (start: { x: number; y: number }, end: { x: number; y: number }): SourceRegion => ({
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  });
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = pointAt(event);
+    if (!point) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    startRef.current = point;
+    setDraft({ ...point, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = pointAt(event);
+    if (startRef.current && point) {
+      setDraft(boxFrom(startRef.current, point));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = pointAt(event);
+    const start = startRef.current;
+    startRef.current = null;
+    setDraft(null);
+    if (start && point) {
+      const box = boxFrom(start, point);
+      if (box.width >= MIN_SIDE && box.height >= MIN_SIDE) {
+        onChange(box);
+      }
+    }
+  };
+
+  const shown = draft ?? region;
+
+  return (
+    <div
+      ref={frameRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        startRef.current = null;
+        setDraft(null);
+      }}
+      className="relative mx-auto w-fit cursor-crosshair touch-none select-none overflow-hidden rounded-xl"
+    >
+      <img src={src} alt="Uploaded preview" draggable={false} className="block max-h-64 w-auto" />
+      {shown && (
+        <div
+          aria-hidden="true"
+          className="pointer-events-none absolute border-2 border-indigo-300 shadow-[0_0_0_9999px_rgba(2,6,23,0.55)]"
+          style={{
+            left: `${shown.x * 100}%`,
+            top: `${shown.y * 100}%`,
+            width: `${shown.width * 100}%`,
+            height: `${shown.height * 100}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+}
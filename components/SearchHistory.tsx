@@ -0,0 +1,110 @@
+/* eslint-disable @next/next/no-img-element */
+'use client';
+
+import type { SearchSession } from '@/lib/searchHistory';
+
+interface SearchHistoryProps {
+  open: boolean;
+  sessions: SearchSession[];
+  // Id of the session whose results are on screen, highlighted in the list.
+  activeId: string | null;
+  onOpen: (session: SearchSession) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const describe = (session: SearchSession) => {
+  if (session.text && session.query) return `Image + “${session.text}”`;
+  if (session.text) return `“${session.text}”`;
+  return 'Image search';
+};
+
+// Slide-over panel on the right; sessions are listed newest first.
+export default function SearchHistory({ open, sessions, activeId, onOpen, onDelete, onClear, onClose }: SearchHistoryProps) {
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <aside
+      aria-label="Search history"
+      className="fixed inset-y-0 right-0 z-40 flex w-full max-w-sm flex-col border-l border-white/10 bg-slate-950/95 shadow-[0_0_60px_-15px_rgba(15,23,42,0.9)] backdrop-blur"
+    >
+      <div className="flex items-center justify-between border-b border-white/10 px-5 py-4">
+        <div>
+          <h2 className="text-base font-semibold text-white">Search history</h2>
+          <p className="text-xs text-slate-400">Saved in this browser only.</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-white/15 px-3 py-1 text-xs font-semibold text-indigo-100 transition hover:border-white/40"
+        >
+          Close
+        </button>
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="px-5 py-10 text-center text-sm text-slate-400">Searches you run will appear here.</p>
+      ) : (
+        <ul className="flex-1 space-y-3 overflow-y-auto px-5 py-4">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className={`rounded-2xl border p-3 transition ${
+                session.id === activeId ? 'border-indigo-300/70 bg-indigo-500/15' : 'border-white/10 bg-white/5'
+              }`}
+            >
+              <button type="button" onClick={() => onOpen(session)} className="flex w-full items-start gap-3 text-left">
+                {session.thumbnail ? (
+                  <img src={session.thumbnail} alt="" className="h-14 w-14 shrink-0 rounded-xl object-cover" />
+                ) : (
+                  <span className="flex h-14 w-14 shrink-0 items-center justify-center rounded-xl bg-white/10 text-xl">
+                    {session.query ? '🖼' : '🔤'}
+                  </span>
+                )}
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm font-semibold text-white">{describe(session)}</span>
+                  <span className="mt-0.5 block text-[0.7rem] text-slate-400">
+                    {formatTime(session.createdAt)} · {session.catalog}
+                  </span>
+                  <span className="mt-1 block truncate text-xs text-indigo-100/80">
+                    {session.results.length === 0
+                      ? 'No matches above the threshold'
+                      : `${session.results[0].name} (${Math.round(session.results[0].similarity)}%)` +
+                        (session.results.length > 1 ? ` +${session.results.length - 1} more` : '')}
+                  </span>
+                </span>
+              </button>
+              <div className="mt-2 flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => onDelete(session.id)}
+                  className="text-[0.7rem] font-semibold text-slate-400 transition hover:text-red-200"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {sessions.length > 0 && (
+        <div className="border-t border-white/10 px-5 py-4">
+          <button
+            type="button"
+            onClick={onClear}
+            className="w-full rounded-xl border border-white/15 px-4 py-2 text-sm font-semibold text-white transition hover:border-red-300/60"
+          >
+            Clear history
+          </button>
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,208 @@
+import { extractorId, getExtractor } from './extractors';
+import { normalizeVector } from './features';
+import type { CatalogEmbedding, SimilarityScore } from './imageMatching';
+import { projectEmbedding } from './imageMatching';
+
+// Inverted-file (IVF) index: catalog vectors are clustered with spherical k-means and a query only scans the
+// lists of its nearest centroids. The file stores centroids and id lists; vectors stay in products.json.
+export interface AnnIndexFile {
+  format: 'ivf';
+  version: number;
+  extractor: string;
+  // Detects an index built from a different catalog revision.
+  fingerprint: string;
+  probes: number;
+  centroids: number[][];
+  lists: number[][];
+}
+
+export interface AnnBuildOptions {
+  lists?: number;
+  probes?: number;
+  iterations?: number;
+  seed?: number;
+}
+
+export interface AnnSearchOptions {
+  probes?: number;
+  filter?: (id: number) => boolean;
+}
+
+export interface AnnSearcher {
+  extractor: string;
+  size: number;
+  search: (query: number[], topK: number, options?: AnnSearchOptions) => SimilarityScore[];
+}
+
+export const ANN_INDEX_VERSION = 1;
+
+const dot = (a: number[], b: number[]) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    total += a[i] * b[i];
+  }
+  return total;
+};
+
+// Deterministic PRNG (mulberry32) so rebuilding an unchanged catalog yields an identical file.
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a over ids and rounded vectors.
+export const catalogFingerprint = (catalog: CatalogEmbedding[]) => {
+  let hash = 0x811c9dc5;
+  const feed = (text: string) => {
+    for (let i = 0; i < text.length; i += 1) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+  };
+  for (const entry of catalog) {
+    feed(`${entry.id}:${entry.extractor}:${entry.embedding.map((value) => value.toFixed(4)).join(',')};`);
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+// Keeps the k best scores in a min-heap instead of sorting every candidate.
+export const selectTopK = (scores: Iterable<SimilarityScore>, k: number): SimilarityScore[] => {
+  const heap: SimilarityScore[] = [];
+  const swap = (a: number, b: number) => {
+    [heap[a], heap[b]] = [heap[b], heap[a]];
+  };
+
+  for (const score of scores) {
+    if (heap.length < k) {
+      heap.push(score);
+      let child = heap.length - 1;
+      while (child > 0) {
+        const parent = (child - 1) >> 1;
+        if (heap[parent].similarity <= heap[child].similarity) break;
+        swap(parent, child);
+        child = parent;
+      }
+    } else if (k > 0 && score.similarity > heap[0].similarity) {
+      heap[0] = score;
+      let parent = 0;
+      for (;;) {
+        const left = parent * 2 + 1;
+        const right = left + 1;
+        let smallest = parent;
+        if (left < heap.length && heap[left].similarity < heap[smallest].similarity) smallest = left;
+        if (right < heap.length && heap[right].similarity < heap[smallest].similarity) smallest = right;
+        if (smallest === parent) break;
+        swap(parent, smallest);
+        parent = smallest;
+      }
+    }
+  }
+
+  return heap.sort((a, b) => b.similarity - a.similarity);
+};
+
+const nearestCentroids = (vector: number[], centroids: number[][], count: number) =>
+  centroids
+    .map((centroid, index) => ({ index, score: dot(vector, centroid) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(({ index }) => index);
+
+export const buildIvfIndex = (catalog: CatalogEmbedding[], options: AnnBuildOptions = {}): AnnIndexFile => {
+  if (catalog.length === 0) {
+    throw new Error('Cannot build an index for an empty catalog');
+  }
+
+  const extractor = getExtractor(catalog[0].extractor);
+  const vectors = catalog.map((entry) => projectEmbedding(entry.embedding, extractor));
+  const listCount = Math.min(catalog.length, options.lists ?? Math.max(1, Math.round(Math.sqrt(catalog.length))));
+  const random = createRandom(options.seed ?? 1);
+
+  // k-means++ seeding on cosine distance.
+  const centroids: number[][] = [vectors[Math.floor(random() * vectors.length)]];
+  while (centroids.length < listCount) {
+    const distances = vectors.map((vector) => Math.max(0, 1 - Math.max(...centroids.map((c) => dot(vector, c)))));
+    const total = distances.reduce((sum, value) => sum + value, 0);
+    let pick = random() * total;
+    let chosen = distances.findIndex((distance) => (pick -= distance) <= 0);
+    if (total === 0 || chosen === -1) {
+      chosen = Math.floor(random() * vectors.length);
+    }
+    centroids.push(vectors[chosen]);
+  }
+
+  let assignments = new Array<number>(vectors.length).fill(-1);
+  for (let iteration = 0; iteration < (options.iterations ?? 25); iteration += 1) {
+    const next = vectors.map((vector) => nearestCentroids(vector, centroids, 1)[0]);
+    const changed = next.some((cluster, index) => cluster !== assignments[index]);
+    assignments = next;
+
+    centroids.forEach((centroid, cluster) => {
+      const members = vectors.filter((_, index) => assignments[index] === cluster);
+      if (members.length > 0) {
+        const sum = centroid.map((_, dimension) => members.reduce((total, member) => total + member[dimension], 0));
+        centroids[cluster] = normalizeVector(sum);
+      }
+    });
+
+    if (!changed) {
+      break;
+    }
+  }
+
+  const lists = centroids.map(() => [] as number[]);
+  assignments.forEach((cluster, index) => lists[cluster].push(catalog[index].id));
+
+  return {
+    format: 'ivf',
+    version: ANN_INDEX_VERSION,
+    extractor: extractorId(extractor),
+    fingerprint: catalogFingerprint(catalog),
+    probes: Math.min(listCount, options.probes ?? Math.max(1, Math.ceil(listCount * 0.4))),
+    centroids: centroids.map((centroid) => centroid.map((value) => Math.round(value * 1e6) / 1e6)),
+    lists,
+  };
+};
+
+export const createIvfSearcher = (index: AnnIndexFile, catalog: CatalogEmbedding[]): AnnSearcher => {
+  if (index.format !== 'ivf' || index.version !== ANN_INDEX_VERSION) {
+    throw new Error(`Unsupported index format ${index.format}@${index.version}`);
+  }
+  if (catalog.length > 0 && index.extractor !== catalog[0].extractor) {
+    throw new Error(`Index was built for ${index.extractor}, catalog uses ${catalog[0].extractor}`);
+  }
+  if (index.fingerprint !== catalogFingerprint(catalog)) {
+    throw new Error('Index is stale: catalog embeddings changed since it was built');
+  }
+
+  const extractor = getExtractor(index.extractor);
+  const vectorsById = new Map(catalog.map((entry) => [entry.id, projectEmbedding(entry.embedding, extractor)]));
+
+  return {
+    extractor: index.extractor,
+    size: catalog.length,
+    search: (query, topK, options = {}) => {
+      const projectedQuery = projectEmbedding(query, extractor);
+      const probes = Math.min(index.centroids.length, Math.max(1, options.probes ?? index.probes));
+
+      function* candidates() {
+        for (const list of nearestCentroids(projectedQuery, index.centroids, probes)) {
+          for (const id of index.lists[list]) {
+            const vector = vectorsById.get(id);
+            if (vector && (!options.filter || options.filter(id))) {
+              yield { id, similarity: Math.max(0, dot(projectedQuery, vector) * 100) };
+            }
+          }
+        }
+      }
+
+      return selectTopK(candidates(), topK);
+    },
+  };
+};
@@ -0,0 +1,93 @@
+import { toCsv } from './csv';
+import type { SimilarityScore } from './imageMatching';
+
+export interface BatchQuery<Source> {
+  // File name or URL; identifies the query in the report.
+  name: string;
+  source: Source;
+}
+
+export interface BatchResult {
+  query: string;
+  matches: SimilarityScore[];
+  // Set when this query could not be loaded or embedded; the rest of the batch still runs.
+  error?: string;
+}
+
+export interface BatchRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number, result: BatchResult) => void;
+}
+
+export interface BatchRun {
+  results: BatchResult[];
+  // True when the signal fired; `results` then holds the queries finished before it did.
+  cancelled: boolean;
+}
+
+export interface BatchReportMeta {
+  extractor: string;
+  topK: number;
+}
+
+// Queries run one at a time, yielding between them so progress can render and a cancel click is seen promptly.
+export const runBatch = async <Source>(
+  queries: BatchQuery<Source>[],
+  match: (source: Source) => Promise<SimilarityScore[]>,
+  options: BatchRunOptions = {},
+): Promise<BatchRun> => {
+  const results: BatchResult[] = [];
+
+  for (const query of queries) {
+    if (options.signal?.aborted) {
+      return { results, cancelled: true };
+    }
+
+    let result: BatchResult;
+    try {
+      result = { query: query.name, matches: await match(query.source) };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { results, cancelled: true };
+      }
+      result = { query: query.name, matches: [], error: error instanceof Error ? error.message : String(error) };
+    }
+    results.push(result);
+    options.onProgress?.(results.length, queries.length, result);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  return { results, cancelled: options.signal?.aborted ?? false };
+};
+
+const roundScore = (similarity: number) => Math.round(similarity * 100) / 100;
+
+// One row per query and rank; a failed query gets a single row carrying its error.
+export const batchToCsv = (results: BatchResult[]) => {
+  const rows: (string | number)[][] = [['query', 'rank', 'product_id', 'score', 'error']];
+  for (const result of results) {
+    if (result.error || result.matches.length === 0) {
+      rows.push([result.query, '', '', '', result.error ?? 'no matches']);
+      continue;
+    }
+    result.matches.forEach((match, index) => {
+      rows.push([result.query, index + 1, match.id, roundScore(match.similarity), '']);
+    });
+  }
+  return toCsv(rows);
+};
+
+export const batchToJson = (results: BatchResult[], meta: BatchReportMeta) =>
+  JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      ...meta,
+      results: results.map((result) => ({
+        query: result.query,
+        matches: result.matches.map((match) => ({ id: match.id, score: roundScore(match.similarity) })),
+        ...(result.error ? { error: result.error } : {}),
+      })),
+    },
+    null,
+    2,
+  );
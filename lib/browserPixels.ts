@@ -0,0 +1,33 @@
+import type { ImageDecoder, PixelData } from './pixels';
+
+export type DrawableImage = HTMLImageElement | ImageBitmap | HTMLCanvasElement;
+
+const intrinsicSize = (image: DrawableImage) =>
+  'naturalWidth' in image
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+
+// Draws at natural size (no smoothing involved) so the shared sampler sees the same pixels Node decodes.
+export const canvasDecoder: ImageDecoder<DrawableImage> = {
+  name: 'canvas',
+  decode: (image): PixelData => {
+    const { width, height } = intrinsicSize(image);
+    if (width === 0 || height === 0) {
+      throw new Error('Image has not finished loading');
+    }
+
+    // Workers have no document; OffscreenCanvas rasterises identically there.
+    const canvas = typeof document === 'undefined' ? new OffscreenCanvas(width, height) : document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true }) as
+      | CanvasRenderingContext2D
+      | OffscreenCanvasRenderingContext2D
+      | null;
+    if (!context) {
+      throw new Error('Canvas context not available in this browser');
+    }
+    context.drawImage(image, 0, 0);
+    return { data: context.getImageData(0, 0, width, height).data, width, height };
+  },
+};
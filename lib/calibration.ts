@@ -0,0 +1,143 @@
+import type { CatalogEmbedding, SimilarityScore } from './imageMatching';
+import { rankCatalog } from './imageMatching';
+
+// Score calibration. Raw similarity is cosine × 100 over non-negative, normalised features, so nearly every
+// product scores 90+ and a threshold on it separates little. Calibration maps raw scores onto the catalog's own
+// score distribution, fitted by ranking the catalog against itself, so 0–100 spans what actually varies.
+
+export type CalibrationMethod = 'none' | 'zscore' | 'percentile' | 'minmax';
+
+export const CALIBRATION_METHODS: { value: CalibrationMethod; label: string; description: string }[] = [
+  { value: 'none', label: 'Raw cosine', description: 'Cosine similarity × 100, unadjusted' },
+  { value: 'percentile', label: 'Percentile', description: 'Share of catalogue pairs that score lower' },
+  { value: 'zscore', label: 'Z-score', description: 'Standard deviations above the mean pair score, as a normal CDF' },
+  { value: 'minmax', label: 'Neighbour range', description: 'From a typical 10th-nearest neighbour (0) to identical (100)' },
+];
+
+export const isCalibrationMethod = (value: unknown): value is CalibrationMethod =>
+  CALIBRATION_METHODS.some((method) => method.value === value);
+
+export interface ScoreDistribution {
+  extractor: string;
+  // Product pairs the statistics were computed from.
+  pairs: number;
+  mean: number;
+  std: number;
+  // Raw scores at the 0th, 1st, … 100th percentile of all pairs.
+  quantiles: number[];
+  // Mean raw score of each product's `neighbours`-th nearest neighbour.
+  neighbourFloor: number;
+  neighbours: number;
+}
+
+export interface FitOptions {
+  neighbours?: number;
+  // Products used as queries; larger catalogs are sampled evenly so fitting stays well under a second.
+  maxQueries?: number;
+}
+
+export const DEFAULT_NEIGHBOURS = 10;
+const DEFAULT_MAX_QUERIES = 100;
+
+const quantile = (sorted: number[], fraction: number) => {
+  const position = fraction * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Null for catalogs with fewer than two products, which have no pairs to fit on.
+export const fitScoreDistribution = (
+  catalogEmbeddings: CatalogEmbedding[],
+  options: FitOptions = {},
+): ScoreDistribution | null => {
+  if (catalogEmbeddings.length < 2) {
+    return null;
+  }
+  const neighbours = Math.min(options.neighbours ?? DEFAULT_NEIGHBOURS, catalogEmbeddings.length - 1);
+  const queryCount = Math.min(catalogEmbeddings.length, options.maxQueries ?? DEFAULT_MAX_QUERIES);
+  const step = catalogEmbeddings.length / queryCount;
+  const scores: number[] = [];
+  let floorTotal = 0;
+
+  for (let sample = 0; sample < queryCount; sample += 1) {
+    const query = catalogEmbeddings[Math.floor(sample * step)];
+    // Exact scan, best first; the product itself is not one of its neighbours.
+    const ranked = rankCatalog(query, catalogEmbeddings, catalogEmbeddings.length).filter((score) => score.id !== query.id);
+    ranked.forEach((score) => scores.push(score.similarity));
+    floorTotal += ranked[neighbours - 1]?.similarity ?? 0;
+  }
+
+  scores.sort((a, b) => a - b);
+  const mean = scores.reduce((sum, value) => sum + value, 0) / scores.length;
+  const variance = scores.reduce((sum, value) => sum + (value - mean) ** 2, 0) / scores.length;
+  return {
+    extractor: catalogEmbeddings[0].extractor,
+    pairs: scores.length,
+    mean,
+    std: Math.sqrt(variance),
+    quantiles: Array.from({ length: 101 }, (_, index) => quantile(scores, index / 100)),
+    neighbourFloor: floorTotal / queryCount,
+    neighbours,
+  };
+};
+
+// Abramowitz–Stegun 7.1.26; accurate to about 1e-7, far below the displayed rounding.
+const erf = (x: number) => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y =
+    1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return x >= 0 ? y : -y;
+};
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+// Maps a raw 0–100 score onto 0–100. Every method is monotonic, so rankings never change, only the numbers and
+// what a threshold keeps.
+export const calibrateScore = (similarity: number, distribution: ScoreDistribution, method: CalibrationMethod) => {
+  switch (method) {
+    case 'zscore': {
+      if (distribution.std === 0) {
+        return similarity >= distribution.mean ? 100 : 0;
+      }
+      const z = (similarity - distribution.mean) / distribution.std;
+      return 50 * (1 + erf(z / Math.SQRT2));
+    }
+    case 'percentile': {
+      const { quantiles } = distribution;
+      if (similarity <= quantiles[0]) return 0;
+      if (similarity >= quantiles[quantiles.length - 1]) return 100;
+      // Last quantile at or below the score, then linear interpolation to the next one.
+      let low = 0;
+      let high = quantiles.length - 1;
+      while (high - low > 1) {
+        const middle = (low + high) >> 1;
+        if (quantiles[middle] <= similarity) low = middle;
+        else high = middle;
+      }
+      const span = quantiles[high] - quantiles[low];
+      return clampPercent(low + (span === 0 ? 0 : (similarity - quantiles[low]) / span));
+    }
+    case 'minmax': {
+      const range = 100 - distribution.neighbourFloor;
+      return range <= 0 ? (similarity >= 100 ? 100 : 0) : clampPercent(((similarity - distribution.neighbourFloor) / range) * 100);
+    }
+    default:
+      return similarity;
+  }
+};
+
+// `similarity` becomes the calibrated score and the original is kept as `rawSimilarity`; breakdowns still add up
+// to the raw score. Without a distribution, or with 'none', scores are returned as they are.
+export const calibrateScores = <Score extends SimilarityScore>(
+  scores: Score[],
+  distribution: ScoreDistribution | null,
+  method: CalibrationMethod,
+): Score[] =>
+  method === 'none' || !distribution
+    ? scores
+    : scores.map((score) => ({
+        ...score,
+        rawSimilarity: score.similarity,
+        similarity: calibrateScore(score.similarity, distribution, method),
+      }));
@@ -0,0 +1,179 @@
+import { getExtractor } from './extractors';
+import type { EmbeddingSet } from './imageMatching';
+
+export interface Product {
+  id: number;
+  name: string;
+  category: string;
+  image: string;
+  tags: string[];
+  price: number;
+  description: string;
+  embeddings: EmbeddingSet;
+}
+
+export interface CatalogIssue {
+  index: number;
+  id?: number;
+  message: string;
+}
+
+export interface CatalogValidation {
+  // Entries that passed every check; invalid ones are reported in `issues` instead.
+  products: Product[];
+  issues: CatalogIssue[];
+}
+
+export const formatCatalogIssue = (issue: CatalogIssue) =>
+  `  entry ${issue.index}${issue.id === undefined ? '' : ` (#${issue.id})`}: ${issue.message}`;
+
+export class CatalogValidationError extends Error {
+  issues: CatalogIssue[];
+
+  constructor(issues: CatalogIssue[]) {
+    super(`Catalog failed validation with ${issues.length} issue(s):\n${issues.map(formatCatalogIssue).join('\n')}`);
+    this.name = 'CatalogValidationError';
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// Absolute http(s) URLs, or site-relative paths for images served by this app (admin uploads).
+const checkImageUrl = (value: unknown) => {
+  if (!isNonEmptyString(value)) {
+    return 'image must be a non-empty URL';
+  }
+  if (value.startsWith('/') && !value.startsWith('//')) {
+    return null;
+  }
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:' ? null : `image must use http(s), got ${protocol}`;
+  } catch {
+    return `image is not a valid URL: ${value}`;
+  }
+};
+
+const checkEmbeddings = (value: unknown): string[] => {
+  if (!isRecord(value) || Object.keys(value).length === 0) {
+    return ['embeddings must map at least one extractor id to a vector'];
+  }
+
+  const problems: string[] = [];
+  for (const [id, vector] of Object.entries(value)) {
+    let dimensions: number;
+    try {
+      dimensions = getExtractor(id).dimensions;
+    } catch {
+      problems.push(`embeddings["${id}"] refers to an unregistered extractor`);
+      continue;
+    }
+    if (!Array.isArray(vector) || !vector.every((component) => Number.isFinite(component))) {
+      problems.push(`embeddings["${id}"] must be an array of finite numbers`);
+    } else if (vector.length !== dimensions) {
+      problems.push(`embeddings["${id}"] has ${vector.length} dimensions, expected ${dimensions}`);
+    }
+  }
+  return problems;
+};
+
+const checkEntry = (entry: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+
+  if (!Number.isInteger(entry.id) || (entry.id as number) <= 0) {
+    problems.push('id must be a positive integer');
+  }
+  for (const field of ['name', 'category', 'description'] as const) {
+    if (!isNonEmptyString(entry[field])) {
+      problems.push(`${field} must be a non-empty string`);
+    }
+  }
+  if (typeof entry.price !== 'number' || !Number.isFinite(entry.price) || entry.price < 0) {
+    problems.push('price must be a non-negative number');
+  }
+  if (!Array.isArray(entry.tags) || !entry.tags.every(isNonEmptyString)) {
+    problems.push('tags must be an array of non-empty strings');
+  }
+
+  const imageProblem = checkImageUrl(entry.image);
+  if (imageProblem) {
+    problems.push(imageProblem);
+  }
+
+  return [...problems, ...checkEmbeddings(entry.embeddings)];
+};
+
+export const validateCatalog = (raw: unknown): CatalogValidation => {
+  if (!Array.isArray(raw)) {
+    return { products: [], issues: [{ index: -1, message: 'catalog must be a JSON array of products' }] };
+  }
+
+  const products: Product[] = [];
+  const issues: CatalogIssue[] = [];
+  const seenIds = new Set<number>();
+
+  raw.forEach((entry, index) => {
+    if (!isRecord(entry)) {
+      issues.push({ index, message: 'entry must be an object' });
+      return;
+    }
+
+    const id = Number.isInteger(entry.id) ? (entry.id as number) : undefined;
+    const problems = checkEntry(entry);
+    if (id !== undefined) {
+      if (seenIds.has(id)) {
+        problems.push('id is used by an earlier entry');
+      }
+      seenIds.add(id);
+    }
+
+    if (problems.length > 0) {
+      issues.push(...problems.map((message) => ({ index, id, message })));
+      return;
+    }
+
+    products.push(entry as unknown as Product);
+  });
+
+  return { products, issues };
+};
+
+// Remote catalogue images go through the proxy, which downsizes and caches them on first request. Site-relative
+// images (admin uploads) are already served by this app.
+export const productThumbnailUrl = (image: string, width: number) =>
+  image.startsWith('/') ? image : `/api/image-proxy?url=${encodeURIComponent(image)}&w=${width}`;
+
+// Strict variant for build-time and server use: any issue rejects the whole catalog.
+export const parseCatalog = (raw: unknown): Product[] => {
+  const { products, issues } = validateCatalog(raw);
+  if (issues.length > 0) {
+    throw new CatalogValidationError(issues);
+  }
+  return products;
+};
+
+// Matches the hand-maintained layout of products.json: one key per line, primitive arrays inline.
+export const formatCatalog = (value: unknown, indent = ''): string => {
+  if (Array.isArray(value)) {
+    if (value.every((item) => item === null || typeof item !== 'object')) {
+      return `[${value.map((item) => JSON.stringify(item)).join(', ')}]`;
+    }
+    const inner = `${indent}  `;
+    return `[\n${value.map((item) => `${inner}${formatCatalog(item, inner)}`).join(',\n')}\n${indent}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const inner = `${indent}  `;
+    const fields = Object.entries(value).map(
+      ([key, field]) => `${inner}${JSON.stringify(key)}: ${formatCatalog(field, inner)}`,
+    );
+    return `{\n${fields.join(',\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Four decimals keep products.json diffable without measurably changing scores.
+export const roundEmbedding = (vector: number[]) => vector.map((value) => Math.round(value * 1e4) / 1e4);
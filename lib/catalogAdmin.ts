@@ -0,0 +1,98 @@
+import { timingSafeEqual } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import type { ProductFields, ProductImageSource } from './catalogStore';
+import { CatalogStoreError } from './catalogStore';
+import { resolveCatalog, UnknownCatalogError } from './catalogRegistry';
+import { DEFAULT_CATALOG } from './catalogs';
+import { sha256 } from './imageCache';
+import { SafeFetchError } from './safeFetch';
+
+// Request plumbing shared by the /api/catalog routes.
+
+// Writes are open during development. Anywhere else CATALOG_ADMIN_TOKEN must be set, and requests must send it as
+// `Authorization: Bearer <token>`.
+export const authorizeCatalogAdmin = (request: Request) => {
+  const token = process.env.CATALOG_ADMIN_TOKEN;
+  if (!token) {
+    return process.env.NODE_ENV === 'development'
+      ? null
+      : NextResponse.json({ error: 'Catalog editing is disabled: CATALOG_ADMIN_TOKEN is not set' }, { status: 403 });
+  }
+  const supplied = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  // Hashing first gives equal-length buffers, as timingSafeEqual requires.
+  const matches = timingSafeEqual(Buffer.from(sha256(supplied), 'hex'), Buffer.from(sha256(token), 'hex'));
+  return matches ? null : NextResponse.json({ error: 'Invalid or missing admin token' }, { status: 401 });
+};
+
+// Every catalog route works on the catalog named by `?catalog=`, or on the default one.
+export const requestCatalog = (request: Request) =>
+  resolveCatalog(new URL(request.url).searchParams.get('catalog') ?? DEFAULT_CATALOG);
+
+export const parseProductId = (raw: string) => {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new CatalogStoreError(`Invalid product id "${raw}"`);
+  }
+  return id;
+};
+
+const parseTags = (raw: unknown) => {
+  const values = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+  return values.filter((value): value is string => typeof value === 'string').map((tag) => tag.trim()).filter(Boolean);
+};
+
+const text = (raw: unknown) => (typeof raw === 'string' ? raw.trim() : undefined);
+
+export interface ProductPayload {
+  // Only the fields present in the request; catalog validation reports anything missing or malformed.
+  fields: Partial<ProductFields>;
+  source?: ProductImageSource;
+}
+
+// Multipart form (with an optional `image` file) or JSON. The image can also be linked through `imageUrl`; tags
+// may be an array or a comma-separated string.
+export const parseProductPayload = async (request: Request): Promise<ProductPayload> => {
+  let body: Record<string, unknown>;
+  let upload: File | null = null;
+
+  if ((request.headers.get('content-type') ?? '').includes('multipart/form-data')) {
+    const form = await request.formData();
+    const file = form.get('image');
+    upload = file instanceof File && file.size > 0 ? file : null;
+    body = Object.fromEntries([...form.entries()].filter(([, value]) => typeof value === 'string'));
+  } else {
+    try {
+      body = (await request.json()) as Record<string, unknown>;
+    } catch {
+      throw new CatalogStoreError('Expected a multipart form or a JSON body');
+    }
+  }
+
+  const fields: Partial<ProductFields> = {};
+  if (body.name !== undefined) fields.name = text(body.name) ?? '';
+  if (body.category !== undefined) fields.category = text(body.category) ?? '';
+  if (body.description !== undefined) fields.description = text(body.description) ?? '';
+  if (body.price !== undefined && body.price !== '') fields.price = Number(body.price);
+  if (body.tags !== undefined) fields.tags = parseTags(body.tags);
+
+  const imageUrl = text(body.imageUrl);
+  const source: ProductImageSource | undefined = upload
+    ? { kind: 'upload', bytes: new Uint8Array(await upload.arrayBuffer()) }
+    : imageUrl
+      ? { kind: 'url', url: imageUrl }
+      : undefined;
+
+  return { fields, source };
+};
+
+export const catalogErrorResponse = (error: unknown) => {
+  if (error instanceof CatalogStoreError || error instanceof UnknownCatalogError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof SafeFetchError) {
+    // A blocked or invalid image URL is the caller's input problem, not an authorization failure.
+    return NextResponse.json({ error: error.message }, { status: error.status >= 500 ? error.status : 422 });
+  }
+  console.error('Catalog request failed', error);
+  return NextResponse.json({ error: 'Unexpected catalog failure' }, { status: 500 });
+};
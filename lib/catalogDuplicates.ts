@@ -0,0 +1,96 @@
+import type { Product } from './catalog';
+import { loadProductImage } from './catalogStore';
+import { samplePixelsFromBytes } from './decodeImage';
+import type { DuplicateCluster, DuplicateOptions } from './duplicates';
+import { findDuplicates, perceptualHash } from './duplicates';
+import { extractorId } from './extractors';
+import { sha256 } from './imageCache';
+import { selectCatalogExtractor, toCatalogEmbeddings } from './imageMatching';
+
+// Server-side duplicate analysis for the /api/catalogs/<name>/duplicates and /api/match routes.
+
+export interface CatalogDuplicateOptions extends DuplicateOptions {
+  // Download product images and compare perceptual hashes; without it only URLs and vectors are compared.
+  hashes?: boolean;
+}
+
+export interface CatalogDuplicateReport {
+  extractor: string;
+  clusters: DuplicateCluster[];
+  // Products whose image was hashed; images that failed are listed in `failures` and compared without a hash.
+  hashed: number;
+  failures: string[];
+}
+
+// Hash per image URL for the life of the process. A URL names fixed content (uploads are content-addressed), so
+// entries never go stale; failures are dropped so the next analysis retries them.
+const imageHashes = new Map<string, Promise<string>>();
+
+const HASH_CONCURRENCY = 4;
+
+const hashImage = (image: string) => {
+  let hash = imageHashes.get(image);
+  if (!hash) {
+    hash = loadProductImage(image).then((bytes) => perceptualHash(samplePixelsFromBytes(bytes)));
+    hash.catch(() => imageHashes.delete(image));
+    imageHashes.set(image, hash);
+  }
+  return hash;
+};
+
+const hashProducts = async (products: Product[]) => {
+  const hashes = new Map<number, string>();
+  const failures: string[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < products.length) {
+      const product = products[next++];
+      try {
+        hashes.set(product.id, await hashImage(product.image));
+      } catch (error) {
+        failures.push(`#${product.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(HASH_CONCURRENCY, products.length) }, worker));
+  return { hashes, failures };
+};
+
+export const analyzeCatalogDuplicates = async (
+  products: Product[],
+  options: CatalogDuplicateOptions = {},
+): Promise<CatalogDuplicateReport> => {
+  const extractor = selectCatalogExtractor(products.map((product) => product.embeddings));
+  if (!extractor) {
+    throw new Error('Catalog has no embeddings from a shared extractor');
+  }
+  const id = extractorId(extractor);
+  const { hashes, failures } = options.hashes ? await hashProducts(products) : { hashes: new Map<number, string>(), failures: [] };
+  const candidates = toCatalogEmbeddings(products, id).map((entry, index) => ({
+    ...entry,
+    image: products[index].image,
+    hash: hashes.get(entry.id),
+  }));
+  const clusters = findDuplicates(candidates, options);
+  return { extractor: id, clusters, hashed: hashes.size, failures };
+};
+
+// Default-option reports per catalog, reused until its products change. This is what the page's duplicate grouping
+// asks for, so anonymous requests cannot trigger a fresh round of image downloads.
+const defaultReports = new Map<string, { fingerprint: string; report: Promise<CatalogDuplicateReport> }>();
+
+export const cachedCatalogDuplicates = (catalog: string, products: Product[]) => {
+  const fingerprint = sha256(JSON.stringify(products));
+  const cached = defaultReports.get(catalog);
+  if (cached?.fingerprint === fingerprint) {
+    return cached.report;
+  }
+  const report = analyzeCatalogDuplicates(products, { hashes: true });
+  report.catch(() => {
+    if (defaultReports.get(catalog)?.report === report) {
+      defaultReports.delete(catalog);
+    }
+  });
+  defaultReports.set(catalog, { fingerprint, report });
+  return report;
+};
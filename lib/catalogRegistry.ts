@@ -0,0 +1,135 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { NextResponse } from 'next/server';
+import type { CatalogSummary } from './catalogs';
+import { DEFAULT_CATALOG, isCatalogName } from './catalogs';
+
+// Where each named catalog lives on disk. The default catalog is public/products.json; every other one is a
+// directory under CATALOGS_DIR holding products.json, an optional products.index.json (as written by
+// `npm run catalog:index`) and an optional catalog.json with a title and description.
+
+export const CATALOGS_DIR = process.env.CATALOGS_DIR ?? path.join(process.cwd(), 'catalogs');
+
+export interface CatalogLocation {
+  name: string;
+  productsPath: string;
+  indexPath: string;
+  metadataPath: string | null;
+}
+
+export class UnknownCatalogError extends Error {
+  status = 404;
+
+  constructor(name: string) {
+    super(`Unknown catalog "${name}"`);
+    this.name = 'UnknownCatalogError';
+  }
+}
+
+const locate = (name: string): CatalogLocation => {
+  if (name === DEFAULT_CATALOG) {
+    const directory = path.join(process.cwd(), 'public');
+    return {
+      name,
+      productsPath: path.join(directory, 'products.json'),
+      indexPath: path.join(directory, 'products.index.json'),
+      metadataPath: null,
+    };
+  }
+  const directory = path.join(CATALOGS_DIR, name);
+  return {
+    name,
+    productsPath: path.join(directory, 'products.json'),
+    indexPath: path.join(directory, 'products.index.json'),
+    metadataPath: path.join(directory, 'catalog.json'),
+  };
+};
+
+const exists = async (filePath: string) => {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+};
+
+// Names are validated before they touch the filesystem, so `..` or separators can never escape CATALOGS_DIR.
+export const resolveCatalog = async (name: string) => {
+  if (!isCatalogName(name)) {
+    throw new UnknownCatalogError(name);
+  }
+  const location = locate(name);
+  if (!(await exists(location.productsPath))) {
+    throw new UnknownCatalogError(name);
+  }
+  return location;
+};
+
+const readMetadata = async (location: CatalogLocation) => {
+  if (!location.metadataPath) {
+    return { title: 'Demo catalogue', description: 'Curated sample products bundled with the app.' };
+  }
+  try {
+    const raw = JSON.parse(await readFile(location.metadataPath, 'utf8')) as Record<string, unknown>;
+    return {
+      title: typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : location.name,
+      description: typeof raw.description === 'string' ? raw.description : undefined,
+    };
+  } catch {
+    return { title: location.name };
+  }
+};
+
+const summarize = async (location: CatalogLocation): Promise<CatalogSummary | null> => {
+  try {
+    const products = JSON.parse(await readFile(location.productsPath, 'utf8')) as unknown;
+    return {
+      name: location.name,
+      ...(await readMetadata(location)),
+      productCount: Array.isArray(products) ? products.length : 0,
+      hasIndex: await exists(location.indexPath),
+    };
+  } catch (error) {
+    // An unreadable catalog is left out of the list rather than failing it; requests for it still report why.
+    console.warn(`Skipping catalog "${location.name}"`, error instanceof Error ? error.message : error);
+    return null;
+  }
+};
+
+// The default catalog first, then every valid directory under CATALOGS_DIR by name.
+export const listCatalogs = async (): Promise<CatalogSummary[]> => {
+  let names: string[] = [];
+  try {
+    const entries = await readdir(CATALOGS_DIR, { withFileTypes: true });
+    names = entries
+      .filter((entry) => entry.isDirectory() && isCatalogName(entry.name) && entry.name !== DEFAULT_CATALOG)
+      .map((entry) => entry.name)
+      .sort();
+  } catch {
+    // No catalogs directory: only the default catalog exists.
+  }
+  const locations = [locate(DEFAULT_CATALOG), ...names.map(locate)];
+  const summaries = await Promise.all(
+    locations.map(async (location) => ((await exists(location.productsPath)) ? summarize(location) : null)),
+  );
+  return summaries.filter((summary): summary is CatalogSummary => summary !== null);
+};
+
+// Serves one of a catalog's JSON files with a validator derived from its size and modification time, so browsers
+// revalidate cheaply and pick up admin edits on the next load.
+export const catalogFileResponse = async (request: Request, filePath: string) => {
+  let info;
+  try {
+    info = await stat(filePath);
+  } catch {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  const etag = `"${info.size.toString(36)}-${Math.floor(info.mtimeMs).toString(36)}"`;
+  const headers = { ETag: etag, 'Cache-Control': 'no-cache' };
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(await readFile(filePath, 'utf8'), {
+    headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+  });
+};
@@ -0,0 +1,283 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Product } from './catalog';
+import { formatCatalog, parseCatalog, roundEmbedding, validateCatalog } from './catalog';
+import type { CatalogLocation } from './catalogRegistry';
+import type { CatalogImportEntry } from './catalogTransfer';
+import { samplePixelsFromBytes } from './decodeImage';
+import { DEFAULT_EXTRACTOR_ID, getExtractor } from './extractors';
+import { sha256 } from './imageCache';
+import type { EmbeddingSet } from './imageMatching';
+import { selectCatalogExtractor } from './imageMatching';
+import { detectImageType } from './imageType';
+import { normalizeImageUrl } from './normalizeImageUrl';
+import { safeFetch } from './safeFetch';
+
+// Server-side read/write access to a catalog's products file for the catalog admin. Every write re-validates the
+// whole catalog and replaces the file atomically; images are embedded with each extractor the catalog already
+// carries, so edited entries stay comparable with the rest.
+
+// Uploaded product images, shared by all catalogs; served back through /api/catalog/images/<file>.
+export const UPLOAD_DIR = process.env.CATALOG_UPLOAD_DIR ?? path.join(process.cwd(), '.data', 'catalog-images');
+export const UPLOAD_URL_PREFIX = '/api/catalog/images/';
+export const MAX_PRODUCT_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export class CatalogStoreError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'CatalogStoreError';
+    this.status = status;
+  }
+}
+
+export type ProductFields = Pick<Product, 'name' | 'category' | 'price' | 'description' | 'tags'>;
+
+export type ProductImageSource = { kind: 'url'; url: string } | { kind: 'upload'; bytes: Uint8Array };
+
+export type CatalogImportMode = 'merge' | 'replace';
+
+export interface CatalogImportResult {
+  created: number;
+  updated: number;
+  // One line per skipped entry; the rest of the import is still applied.
+  failures: string[];
+}
+
+let queue: Promise<unknown> = Promise.resolve();
+
+// Serializes read-modify-write cycles in this process so concurrent admin edits cannot drop each other's changes.
+const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+export const readCatalog = async (catalog: CatalogLocation) =>
+  parseCatalog(JSON.parse(await readFile(catalog.productsPath, 'utf8')));
+
+const writeCatalog = async (catalog: CatalogLocation, products: Product[]) => {
+  const temporary = `${catalog.productsPath}.${process.pid}.tmp`;
+  await writeFile(temporary, `${formatCatalog(products)}\n`);
+  await rename(temporary, catalog.productsPath);
+};
+
+const describeIssues = (products: Product[]) =>
+  validateCatalog(products).issues.map((issue) => issue.message).join('; ');
+
+const nextId = (products: Product[]) => products.reduce((max, product) => Math.max(max, product.id), 0) + 1;
+
+// Key order of the hand-maintained file, so admin edits produce small diffs.
+const toProduct = (id: number, fields: ProductFields, image: string, embeddings: EmbeddingSet): Product => ({
+  id,
+  name: fields.name,
+  category: fields.category,
+  image,
+  price: fields.price,
+  description: fields.description,
+  tags: fields.tags,
+  embeddings,
+});
+
+// Every extractor the catalog already has vectors for, so a new entry never narrows what the matcher can select.
+const catalogExtractorIds = (products: { embeddings?: EmbeddingSet }[]) => {
+  const ids = new Set(products.flatMap((product) => Object.keys(product.embeddings ?? {})));
+  return ids.size > 0 ? [...ids] : [DEFAULT_EXTRACTOR_ID];
+};
+
+const embedImage = (bytes: Uint8Array, extractorIds: string[]): EmbeddingSet => {
+  const type = detectImageType(bytes);
+  if (type !== 'png' && type !== 'jpeg') {
+    throw new CatalogStoreError(`Only PNG and JPEG images can be embedded${type ? `, got ${type}` : ''}`, 422);
+  }
+  let pixels;
+  try {
+    pixels = samplePixelsFromBytes(bytes);
+  } catch {
+    throw new CatalogStoreError('Image could not be decoded', 422);
+  }
+  return Object.fromEntries(extractorIds.map((id) => [id, roundEmbedding(getExtractor(id).extract(pixels))]));
+};
+
+// Bytes of a product's current image: admin uploads from disk, anything else through safeFetch.
+export const loadProductImage = async (image: string): Promise<Uint8Array> => {
+  if (image.startsWith(UPLOAD_URL_PREFIX)) {
+    try {
+      return await readFile(path.join(UPLOAD_DIR, path.basename(image.slice(UPLOAD_URL_PREFIX.length))));
+    } catch {
+      throw new CatalogStoreError(`Uploaded image ${image} is missing`, 422);
+    }
+  }
+  const response = await safeFetch(image, {
+    headers: { Accept: 'image/png,image/jpeg,image/*;q=0.8' },
+    maxBytes: MAX_PRODUCT_IMAGE_BYTES,
+  });
+  if (response.status < 200 || response.status >= 300) {
+    throw new CatalogStoreError(`Image download failed with status ${response.status}`, 422);
+  }
+  return response.body;
+};
+
+// Uploads are stored under their content hash, so re-uploading the same file reuses it.
+const storeUpload = async (bytes: Uint8Array) => {
+  const fileName = `${sha256(bytes).slice(0, 24)}.${detectImageType(bytes) === 'jpeg' ? 'jpg' : 'png'}`;
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  await writeFile(path.join(UPLOAD_DIR, fileName), bytes);
+  return `${UPLOAD_URL_PREFIX}${fileName}`;
+};
+
+// Embeds before anything is stored, so an undecodable image is rejected without leaving files behind.
+const resolveImage = async (source: ProductImageSource, extractorIds: string[]) => {
+  if (source.kind === 'upload') {
+    if (source.bytes.length > MAX_PRODUCT_IMAGE_BYTES) {
+      throw new CatalogStoreError('Image exceeds the 10MB limit', 413);
+    }
+    const embeddings = embedImage(source.bytes, extractorIds);
+    return { image: await storeUpload(source.bytes), embeddings };
+  }
+  const image = source.url.startsWith('/') ? source.url : normalizeImageUrl(source.url.trim());
+  return { image, embeddings: embedImage(await loadProductImage(image), extractorIds) };
+};
+
+const findProduct = (products: Product[], id: number) => {
+  const index = products.findIndex((product) => product.id === id);
+  if (index === -1) {
+    throw new CatalogStoreError(`Product #${id} does not exist`, 404);
+  }
+  return index;
+};
+
+const commit = async (catalog: CatalogLocation, products: Product[]) => {
+  const problems = describeIssues(products);
+  if (problems) {
+    throw new CatalogStoreError(problems);
+  }
+  // Entries are valid one by one, but the matcher also needs one extractor that every product has a vector for.
+  if (!selectCatalogExtractor(products.map((product) => product.embeddings))) {
+    throw new CatalogStoreError('No embedding extractor is shared by every product; catalog left unchanged', 422);
+  }
+  await writeCatalog(catalog, products);
+};
+
+export const createProduct = async (catalog: CatalogLocation, fields: ProductFields, source: ProductImageSource) => {
+  // Embedding may download the image, so it happens outside the write lock.
+  const { image, embeddings } = await resolveImage(source, catalogExtractorIds(await readCatalog(catalog)));
+  return exclusive(async () => {
+    const products = await readCatalog(catalog);
+    const product = toProduct(nextId(products), fields, image, embeddings);
+    await commit(catalog, [...products, product]);
+    return product;
+  });
+};
+
+export const updateProduct = async (
+  catalog: CatalogLocation,
+  id: number,
+  fields: Partial<ProductFields>,
+  source?: ProductImageSource,
+) => {
+  const resolved = source ? await resolveImage(source, catalogExtractorIds(await readCatalog(catalog))) : null;
+  return exclusive(async () => {
+    const products = await readCatalog(catalog);
+    const index = findProduct(products, id);
+    const current = products[index];
+    const product = toProduct(
+      id,
+      { ...current, ...fields },
+      resolved?.image ?? current.image,
+      resolved?.embeddings ?? current.embeddings,
+    );
+    await commit(catalog, products.map((entry, position) => (position === index ? product : entry)));
+    return product;
+  });
+};
+
+// Recomputes every catalog extractor's vector from the product's current image, e.g. after an extractor bump.
+export const reembedProduct = async (catalog: CatalogLocation, id: number) => {
+  const before = await readCatalog(catalog);
+  const { image } = before[findProduct(before, id)];
+  const embeddings = embedImage(await loadProductImage(image), catalogExtractorIds(before));
+  return exclusive(async () => {
+    const products = await readCatalog(catalog);
+    const index = findProduct(products, id);
+    const product = { ...products[index], embeddings };
+    await commit(catalog, products.map((entry, position) => (position === index ? product : entry)));
+    return product;
+  });
+};
+
+export const deleteProduct = (catalog: CatalogLocation, id: number) =>
+  exclusive(async () => {
+    const products = await readCatalog(catalog);
+    const index = findProduct(products, id);
+    await commit(catalog, products.filter((_, position) => position !== index));
+  });
+
+// Entries with an existing id are merged over it; the rest are added. Entries without vectors keep the current
+// ones, or are embedded from their image when it is new or changed. `replace` drops products the import omits.
+export const importCatalog = async (
+  catalog: CatalogLocation,
+  entries: CatalogImportEntry[],
+  mode: CatalogImportMode = 'merge',
+): Promise<CatalogImportResult> => {
+  const current = await readCatalog(catalog);
+  const existing = new Map(current.map((product) => [product.id, product]));
+  const extractorIds = catalogExtractorIds([...(mode === 'merge' ? current : []), ...entries]);
+
+  const prepared: Product[] = [];
+  const failures: string[] = [];
+  let assignedId = Math.max(
+    nextId(current),
+    ...entries.map((entry) => (Number.isInteger(entry.id) ? (entry.id as number) + 1 : 0)),
+  );
+
+  for (const [position, entry] of entries.entries()) {
+    try {
+      const base = entry.id === undefined ? undefined : existing.get(entry.id);
+      const merged = { ...base, ...entry };
+      const image = merged.image ?? '';
+      let embeddings = entry.embeddings;
+      if (!embeddings) {
+        if (base && image === base.image) {
+          embeddings = base.embeddings;
+        } else if (image) {
+          embeddings = embedImage(await loadProductImage(image), extractorIds);
+        } else {
+          throw new CatalogStoreError('image is required to compute an embedding');
+        }
+      }
+      const product = toProduct(entry.id ?? assignedId++, merged as ProductFields, image, embeddings);
+      const problems = describeIssues([product]);
+      if (problems) {
+        throw new CatalogStoreError(problems);
+      }
+      prepared.push(product);
+    } catch (error) {
+      const label = `row ${position + 1}${entry.id === undefined ? '' : ` (#${entry.id})`}`;
+      failures.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (mode === 'replace' && prepared.length === 0) {
+    throw new CatalogStoreError(`Import contained no valid products; catalog left unchanged\n${failures.join('\n')}`);
+  }
+
+  return exclusive(async () => {
+    const latest = await readCatalog(catalog);
+    const latestIds = new Set(latest.map((product) => product.id));
+    const byId = new Map((mode === 'merge' ? latest : []).map((product) => [product.id, product]));
+    let created = 0;
+    let updated = 0;
+    for (const product of prepared) {
+      if (latestIds.has(product.id)) {
+        updated += 1;
+      } else {
+        created += 1;
+      }
+      byId.set(product.id, product);
+    }
+    await commit(catalog, [...byId.values()]);
+    return { created, updated, failures };
+  });
+};
@@ -0,0 +1,82 @@
+import type { Product } from './catalog';
+import { parseCsv, toCsv } from './csv';
+
+// Import/export formats for the catalog admin. JSON round-trips complete products; CSV carries the editable fields
+// only, so imported rows without vectors are embedded from their image on the way in.
+
+// Any subset of a product. Missing fields keep their current value when the id already exists.
+export type CatalogImportEntry = Partial<Product>;
+
+export const CATALOG_CSV_COLUMNS = ['id', 'name', 'category', 'price', 'tags', 'description', 'image'] as const;
+
+// Tags share one CSV cell.
+const TAG_SEPARATOR = ';';
+
+export const catalogToCsv = (products: Product[]) =>
+  toCsv([
+    [...CATALOG_CSV_COLUMNS],
+    ...products.map((product) => [
+      product.id,
+      product.name,
+      product.category,
+      product.price,
+      product.tags.join(TAG_SEPARATOR),
+      product.description,
+      product.image,
+    ]),
+  ]);
+
+export const catalogToJson = (products: Product[]) => JSON.stringify(products, null, 2);
+
+const optionalNumber = (value: string | undefined) => (value === undefined || value.trim() === '' ? undefined : Number(value));
+
+const optionalText = (value: string | undefined) => (value === undefined || value.trim() === '' ? undefined : value.trim());
+
+// Columns are matched by header name, case-insensitively, and may come in any order. Malformed numbers are passed
+// through as NaN so validation reports them against the right row.
+export const parseCatalogCsv = (text: string): CatalogImportEntry[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+  const columns = header.map((name) => name.trim().toLowerCase());
+  if (!columns.includes('name') && !columns.includes('id')) {
+    throw new Error(`CSV header must include "id" or "name"; expected columns: ${CATALOG_CSV_COLUMNS.join(', ')}`);
+  }
+
+  return rows.map((row) => {
+    const cell = (column: (typeof CATALOG_CSV_COLUMNS)[number]) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? undefined : row[index];
+    };
+    const tags = cell('tags');
+    const entry: CatalogImportEntry = {
+      id: optionalNumber(cell('id')),
+      name: optionalText(cell('name')),
+      category: optionalText(cell('category')),
+      price: optionalNumber(cell('price')),
+      tags:
+        tags === undefined
+          ? undefined
+          : tags
+              .split(TAG_SEPARATOR)
+              .map((tag) => tag.trim())
+              .filter(Boolean),
+      description: optionalText(cell('description')),
+      image: optionalText(cell('image')),
+    };
+    return Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)) as CatalogImportEntry;
+  });
+};
+
+export const parseCatalogJson = (raw: unknown): CatalogImportEntry[] => {
+  if (!Array.isArray(raw)) {
+    throw new Error('JSON import must be an array of products');
+  }
+  return raw.map((entry, index) => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      throw new Error(`Entry ${index} must be an object`);
+    }
+    return entry as CatalogImportEntry;
+  });
+};
@@ -0,0 +1,37 @@
+// Named catalogs, shared by the browser and the server. Each catalog has its own products file, optional ANN index
+// and metadata; `default` is the bundled public/products.json.
+
+export const DEFAULT_CATALOG = 'default';
+
+// Lowercase slugs only: names end up in URLs and in file paths.
+const CATALOG_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export const isCatalogName = (value: unknown): value is string => typeof value === 'string' && CATALOG_NAME.test(value);
+
+export interface CatalogSummary {
+  name: string;
+  title: string;
+  description?: string;
+  productCount: number;
+  hasIndex: boolean;
+}
+
+export const catalogFromSearchParams = (params: URLSearchParams) => {
+  const name = params.get('catalog');
+  return isCatalogName(name) ? name : DEFAULT_CATALOG;
+};
+
+// The default catalog is left implicit so existing links stay unchanged.
+export const catalogToSearchParams = (name: string, base = new URLSearchParams()) => {
+  const params = new URLSearchParams(base);
+  if (name === DEFAULT_CATALOG) {
+    params.delete('catalog');
+  } else {
+    params.set('catalog', name);
+  }
+  return params;
+};
+
+export const catalogProductsUrl = (name: string) => `/api/catalogs/${encodeURIComponent(name)}/products`;
+
+export const catalogIndexUrl = (name: string) => `/api/catalogs/${encodeURIComponent(name)}/index`;
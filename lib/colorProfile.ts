@@ -0,0 +1,25 @@
+import type { ColorStats, DominantColor } from './features';
+import { computeDominantColors, measureColorStats } from './features';
+import type { PixelData } from './pixels';
+import { maskBackground as applyBackgroundMask, sampleToCanvas } from './pixels';
+
+// Human-readable summary of an image for match explanations: the tone measurements behind color-stats plus a few
+// dominant colors. Computed on the same 48×48 grid the extractors read, so it describes what was actually compared.
+export interface ColorProfile extends ColorStats {
+  swatches: DominantColor[];
+}
+
+export interface ColorProfileOptions {
+  // Describe the foreground only, as the masked extractors see it.
+  maskBackground?: boolean;
+  swatches?: number;
+}
+
+export const computeColorProfile = (
+  pixels: PixelData,
+  { maskBackground = false, swatches = 5 }: ColorProfileOptions = {},
+): ColorProfile => {
+  const sampled = sampleToCanvas(pixels);
+  const { data } = maskBackground ? applyBackgroundMask(sampled) : sampled;
+  return { ...measureColorStats(data), swatches: computeDominantColors(data, swatches) };
+};
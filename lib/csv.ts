@@ -0,0 +1,67 @@
+// Minimal RFC 4180 reading and writing, shared by the batch report and catalog import/export.
+
+const FORMULA_TRIGGER = /^[=+\-@]/;
+
+// Fields containing a comma, quote or line break are wrapped and inner quotes doubled. Text starting with a formula
+// trigger gets a leading apostrophe so spreadsheets show it instead of evaluating it; numbers are written as-is.
+const csvField = (value: string | number) => {
+  const text = typeof value === 'string' && FORMULA_TRIGGER.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]) => `${rows.map((row) => row.map(csvField).join(',')).join('\r\n')}\r\n`;
+
+// Accepts CRLF or LF line endings and quoted fields spanning lines; blank lines are skipped. The apostrophe toCsv
+// puts in front of formula triggers is dropped again, so exported files import unchanged.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const pushField = () => {
+    row.push(field.startsWith("'") && FORMULA_TRIGGER.test(field.slice(1)) ? field.slice(1) : field);
+  };
+
+  const endRow = () => {
+    pushField();
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      pushField();
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i += 1;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('CSV ends inside a quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
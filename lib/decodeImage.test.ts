@@ -0,0 +1,235 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { canvasDecoder } from './browserPixels';
+import { nodeDecoder, orientPixels, readImageSize, readJpegOrientation, samplePixelsFromBytes } from './decodeImage';
+import type { PixelData } from './pixels';
+import { cropPixels, sampleToCanvas } from './pixels';
+
+// Fixture: a 64×32 image split into four flat colour blocks, large enough to survive JPEG compression.
+const WIDTH = 64;
+const HEIGHT = 32;
+const BLOCKS = [
+  [220, 40, 40],
+  [40, 180, 60],
+  [40, 70, 210],
+  [240, 200, 40],
+];
+
+const fixture = (): PixelData => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y += 1) {
+    for (let x = 0; x < WIDTH; x += 1) {
+      const [red, green, blue] = BLOCKS[(y < HEIGHT / 2 ? 0 : 2) + (x < WIDTH / 2 ? 0 : 1)];
+      data.set([red, green, blue, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+const encodePng = ({ data, width, height }: PixelData) => {
+  const png = new PNG({ width, height });
+  png.data = Buffer.from(data as Uint8ClampedArray);
+  return new Uint8Array(PNG.sync.write(png));
+};
+
+// JPEG with an APP1 segment carrying only the orientation tag, inserted right after SOI like a camera would.
+const encodeJpeg = ({ data, width, height }: PixelData, orientation: number, littleEndian = false) => {
+  const encoded = jpeg.encode({ data: Buffer.from(data as Uint8ClampedArray), width, height }, 95).data;
+  const tiff = Buffer.alloc(26);
+  tiff.write(littleEndian ? 'II' : 'MM', 0, 'latin1');
+  const u16 = (value: number, at: number) => (littleEndian ? tiff.writeUInt16LE(value, at) : tiff.writeUInt16BE(value, at));
+  const u32 = (value: number, at: number) => (littleEndian ? tiff.writeUInt32LE(value, at) : tiff.writeUInt32BE(value, at));
+  u16(42, 2);
+  u32(8, 4);
+  u16(1, 8);
+  u16(0x0112, 10);
+  u16(3, 12);
+  u32(1, 14);
+  u16(orientation, 18);
+  const payload = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+  const header = Buffer.from([0xff, 0xe1, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return new Uint8Array(Buffer.concat([encoded.subarray(0, 2), header, payload, encoded.subarray(2)]));
+};
+
+// Largest per-channel difference; JPEG is lossy, so decoded pixels are compared with a tolerance.
+const maxDifference = (a: PixelData, b: PixelData) => {
+  assert.equal(a.width, b.width);
+  assert.equal(a.height, b.height);
+  let max = 0;
+  for (let index = 0; index < a.data.length; index += 1) {
+    max = Math.max(max, Math.abs(a.data[index] - b.data[index]));
+  }
+  return max;
+};
+
+// A decoded image as the browser hands it to canvasDecoder, with EXIF orientation already applied as
+// `image-orientation: from-image` does. The pixels ride along for StubCanvas to paint.
+type StubBitmap = ImageBitmap & { pixels: PixelData };
+
+const bitmap = (pixels: PixelData): StubBitmap => ({
+  width: pixels.width,
+  height: pixels.height,
+  close: () => undefined,
+  pixels,
+});
+
+// Stands in for OffscreenCanvas: drawImage paints a stub bitmap at (dx, dy) into a transparent buffer the size of
+// the canvas and getImageData copies a rectangle back out, so canvasDecoder's sizing and offsets really matter.
+class StubCanvas {
+  constructor(
+    public width: number,
+    public height: number,
+  ) {}
+
+  getContext() {
+    const { width, height } = this;
+    const buffer = new Uint8ClampedArray(width * height * 4);
+    return {
+      drawImage: (image: StubBitmap, dx: number, dy: number) => {
+        for (let y = 0; y < image.height; y += 1) {
+          for (let x = 0; x < image.width; x += 1) {
+            if (dx + x >= 0 && dy + y >= 0 && dx + x < width && dy + y < height) {
+              const from = (y * image.width + x) * 4;
+              const to = ((dy + y) * width + dx + x) * 4;
+              for (let channel = 0; channel < 4; channel += 1) {
+                buffer[to + channel] = image.pixels.data[from + channel];
+              }
+            }
+          }
+        }
+      },
+      getImageData: (sx: number, sy: number, sw: number, sh: number) => {
+        const data = new Uint8ClampedArray(sw * sh * 4);
+        for (let y = 0; y < sh; y += 1) {
+          if (sy + y >= 0 && sy + y < height) {
+            const row = ((sy + y) * width + sx) * 4;
+            data.set(buffer.subarray(row, row + Math.min(sw, width - sx) * 4), y * sw * 4);
+          }
+        }
+        return { data };
+      },
+    };
+  }
+}
+
+describe('nodeDecoder', () => {
+  it('decodes PNG losslessly', () => {
+    const decoded = nodeDecoder.decode(encodePng(fixture()));
+    assert.deepEqual({ ...decoded, data: Uint8ClampedArray.from(decoded.data) }, fixture());
+  });
+
+  it('applies EXIF orientation to JPEG', () => {
+    for (const orientation of [1, 3, 6, 8]) {
+      for (const littleEndian of [false, true]) {
+        // Stored sideways or upside down; the orientation tag turns it back into the fixture.
+        const inverse = orientation === 6 ? 8 : orientation === 8 ? 6 : orientation;
+        const bytes = encodeJpeg(orientPixels(fixture(), inverse), orientation, littleEndian);
+        assert.equal(readJpegOrientation(Buffer.from(bytes)), orientation);
+        assert.ok(maxDifference(nodeDecoder.decode(bytes), fixture()) <= 24, `orientation ${orientation}`);
+      }
+    }
+  });
+
+  it('treats a JPEG without EXIF as upright', () => {
+    const { data, width, height } = fixture();
+    const bytes = new Uint8Array(jpeg.encode({ data: Buffer.from(data as Uint8ClampedArray), width, height }, 95).data);
+    assert.equal(readJpegOrientation(Buffer.from(bytes)), 1);
+  });
+});
+
+describe('orientPixels', () => {
+  it('round-trips every orientation through its inverse', () => {
+    const inverses: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 8, 7: 7, 8: 6 };
+    for (const [orientation, inverse] of Object.entries(inverses)) {
+      const turned = orientPixels(fixture(), Number(orientation));
+      assert.equal(turned.width, Number(orientation) >= 5 ? HEIGHT : WIDTH);
+      assert.deepEqual(orientPixels(turned, inverse), fixture(), `orientation ${orientation}`);
+    }
+  });
+});
+
+describe('canvasDecoder', () => {
+  before(() => {
+    Object.assign(globalThis, { OffscreenCanvas: StubCanvas });
+  });
+  after(() => {
+    Reflect.deleteProperty(globalThis, 'OffscreenCanvas');
+  });
+
+  it('reads back the whole image at its intrinsic size', () => {
+    const decoded = canvasDecoder.decode(bitmap(fixture()));
+    assert.deepEqual({ ...decoded, data: Uint8ClampedArray.from(decoded.data) }, fixture());
+  });
+
+  it('rejects an image that has not loaded yet', () => {
+    const empty = bitmap({ data: new Uint8ClampedArray(0), width: 0, height: 0 });
+    assert.throws(() => canvasDecoder.decode(empty), /not finished loading/);
+  });
+
+  it('samples a PNG to the same grid as nodeDecoder', () => {
+    const browser = sampleToCanvas(canvasDecoder.decode(bitmap(fixture())));
+    assert.deepEqual(samplePixelsFromBytes(encodePng(fixture())), browser);
+  });
+
+  it('samples a rotated JPEG to the grid the browser shows', () => {
+    const browser = sampleToCanvas(canvasDecoder.decode(bitmap(fixture())));
+    const node = samplePixelsFromBytes(encodeJpeg(orientPixels(fixture(), 8), 6));
+    assert.ok(maxDifference(node, browser) <= 8);
+  });
+});
+
+describe('cropPixels', () => {
+  const block = (index: number, width: number, height: number): PixelData => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let offset = 0; offset < data.length; offset += 4) {
+      data.set([...BLOCKS[index], 255], offset);
+    }
+    return { data, width, height };
+  };
+
+  it('cuts out a region given as fractions of the image', () => {
+    assert.deepEqual(cropPixels(fixture(), { x: 0.5, y: 0.5, width: 0.5, height: 0.5 }), block(3, WIDTH / 2, HEIGHT / 2));
+    assert.deepEqual(cropPixels(fixture(), { x: 0, y: 0.5, width: 0.25, height: 0.5 }), block(2, WIDTH / 4, HEIGHT / 2));
+  });
+
+  it('rounds outward to whole pixels', () => {
+    const crop = cropPixels(fixture(), { x: 0.01, y: 0.01, width: 0.02, height: 0.02 });
+    assert.deepEqual([crop.width, crop.height], [2, 1]);
+  });
+
+  it('clamps regions reaching past the edges and keeps at least one pixel', () => {
+    assert.deepEqual(cropPixels(fixture(), { x: 0.75, y: -1, width: 2, height: 1.5 }), block(1, WIDTH / 4, HEIGHT / 2));
+    assert.deepEqual(cropPixels(fixture(), { x: 1, y: 1, width: 0, height: 0 }), block(3, 1, 1));
+  });
+});
+
+describe('decode size limit', () => {
+  // Only the header is real; a decoder that ignored the limit would fail on the missing data instead.
+  const pngHeader = (width: number, height: number) => {
+    const bytes = Buffer.from(encodePng(fixture()));
+    bytes.writeUInt32BE(width, 16);
+    bytes.writeUInt32BE(height, 20);
+    return bytes;
+  };
+  const jpegHeader = (width: number, height: number) => {
+    const bytes = Buffer.from(encodeJpeg(fixture(), 1));
+    const frame = bytes.indexOf(Buffer.from([0xff, 0xc0]));
+    bytes.writeUInt16BE(height, frame + 5);
+    bytes.writeUInt16BE(width, frame + 7);
+    return bytes;
+  };
+
+  it('reads dimensions from PNG and JPEG headers', () => {
+    assert.deepEqual(readImageSize(Buffer.from(encodePng(fixture()))), { width: WIDTH, height: HEIGHT });
+    assert.deepEqual(readImageSize(Buffer.from(encodeJpeg(fixture(), 6))), { width: WIDTH, height: HEIGHT });
+    assert.equal(readImageSize(Buffer.from('not an image')), null);
+  });
+
+  it('rejects images above the megapixel limit before decoding', () => {
+    assert.throws(() => nodeDecoder.decode(pngHeader(20_000, 20_000)), /limit is 40 MP/);
+    assert.throws(() => nodeDecoder.decode(jpegHeader(65_000, 65_000)), /limit is 40 MP/);
+  });
+});
@@ -0,0 +1,185 @@
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import type { ImageDecoder, PixelData } from './pixels';
+import { resamplePixels, sampleToCanvas } from './pixels';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const EXIF_ORIENTATION_TAG = 0x0112;
+// Decoded RGBA takes 4 bytes per pixel, so this caps a single decode at about 160 MB of pixels. Checked from the
+// header, before any pixel memory is allocated.
+export const MAX_DECODE_MEGAPIXELS = 40;
+// jpeg-js's own guard, including its intermediate component buffers.
+const JPEG_MAX_MEMORY_MB = 512;
+
+// JPEG segments up to the scan data, as [marker, payload offset, payload length].
+const jpegSegments = function* (buffer: Buffer): Generator<[number, number, number]> {
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // Fill bytes and standalone markers carry no length.
+    if (marker === 0xff || (marker >= 0xd0 && marker <= 0xd8) || marker === 0x01) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    yield [marker, offset + 4, length - 2];
+    if (marker === 0xda) {
+      return;
+    }
+    offset += 2 + length;
+  }
+};
+
+// Start-of-frame markers (baseline, progressive, lossless, arithmetic); C4, C8 and CC share the range but are not frames.
+const isStartOfFrame = (marker: number) =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+// Dimensions from the PNG IHDR chunk or the JPEG frame header; null when the header cannot be read.
+export const readImageSize = (buffer: Buffer): { width: number; height: number } | null => {
+  if (PNG_SIGNATURE.every((byte, index) => buffer[index] === byte)) {
+    return buffer.length >= 24 ? { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) } : null;
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    for (const [marker, start, length] of jpegSegments(buffer)) {
+      if (isStartOfFrame(marker) && length >= 5 && start + 5 <= buffer.length) {
+        return { width: buffer.readUInt16BE(start + 3), height: buffer.readUInt16BE(start + 1) };
+      }
+    }
+  }
+  return null;
+};
+
+const assertDecodableSize = (buffer: Buffer) => {
+  const size = readImageSize(buffer);
+  if (!size) {
+    throw new Error('Image header could not be read');
+  }
+  const megapixels = (size.width * size.height) / 1_000_000;
+  if (megapixels > MAX_DECODE_MEGAPIXELS) {
+    throw new Error(
+      `Image is ${size.width}×${size.height} (${megapixels.toFixed(1)} MP); the limit is ${MAX_DECODE_MEGAPIXELS} MP`,
+    );
+  }
+};
+
+// EXIF orientation (1–8) from the APP1 segment; 1 when absent or unreadable.
+export const readJpegOrientation = (buffer: Buffer) => {
+  for (const [marker, start, length] of jpegSegments(buffer)) {
+    if (marker !== 0xe1 || length < 14 || buffer.toString('latin1', start, start + 6) !== 'Exif\0\0') {
+      continue;
+    }
+    const tiff = start + 6;
+    const end = Math.min(buffer.length, start + length);
+    const little = buffer.toString('latin1', tiff, tiff + 2) === 'II';
+    const u16 = (at: number) => (little ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at));
+    const u32 = (at: number) => (little ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at));
+    const ifd = tiff + u32(tiff + 4);
+    if (ifd + 2 > end) {
+      return 1;
+    }
+    for (let entry = ifd + 2; entry + 12 <= end && entry < ifd + 2 + u16(ifd) * 12; entry += 12) {
+      if (u16(entry) === EXIF_ORIENTATION_TAG) {
+        const orientation = u16(entry + 8);
+        return orientation >= 1 && orientation <= 8 ? orientation : 1;
+      }
+    }
+    return 1;
+  }
+  return 1;
+};
+
+// Source pixel for output pixel (x, y) of a width × height image, per EXIF orientation 2–8.
+const ORIENTATION_SOURCE: Record<number, (x: number, y: number, width: number, height: number) => [number, number]> = {
+  2: (x, y, width) => [width - 1 - x, y],
+  3: (x, y, width, height) => [width - 1 - x, height - 1 - y],
+  4: (x, y, _width, height) => [x, height - 1 - y],
+  5: (x, y) => [y, x],
+  6: (x, y, _width, height) => [y, height - 1 - x],
+  7: (x, y, width, height) => [width - 1 - y, height - 1 - x],
+  8: (x, y, width) => [width - 1 - y, x],
+};
+
+// Applies an EXIF orientation the way browsers do when drawing an <img> (`image-orientation: from-image`), so
+// a phone photo stored sideways is sampled upright on both sides.
+export const orientPixels = (pixels: PixelData, orientation: number): PixelData => {
+  if (orientation <= 1 || orientation > 8) {
+    return pixels;
+  }
+  const { data, width, height } = pixels;
+  const swap = orientation >= 5;
+  const outWidth = swap ? height : width;
+  const outHeight = swap ? width : height;
+  const output = new Uint8ClampedArray(outWidth * outHeight * 4);
+  for (let y = 0; y < outHeight; y += 1) {
+    for (let x = 0; x < outWidth; x += 1) {
+      const [sx, sy] = ORIENTATION_SOURCE[orientation](x, y, width, height);
+      const from = (sy * width + sx) * 4;
+      const to = (y * outWidth + x) * 4;
+      for (let channel = 0; channel < 4; channel += 1) {
+        output[to + channel] = data[from + channel];
+      }
+    }
+  }
+  return { data: output, width: outWidth, height: outHeight };
+};
+
+// Node-side counterpart of the canvas decoder in browserPixels.ts.
+export const nodeDecoder: ImageDecoder<Uint8Array> = {
+  name: 'pngjs+jpeg-js',
+  decode: (bytes): PixelData => {
+    const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // Sniff magic bytes rather than trusting file extensions or content-type headers.
+    if (PNG_SIGNATURE.every((byte, index) => buffer[index] === byte)) {
+      assertDecodableSize(buffer);
+      const png = PNG.sync.read(buffer);
+      return { data: png.data, width: png.width, height: png.height };
+    }
+    if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+      assertDecodableSize(buffer);
+      const decoded = jpeg.decode(buffer, {
+        useTArray: true,
+        formatAsRGBA: true,
+        maxResolutionInMP: MAX_DECODE_MEGAPIXELS,
+        maxMemoryUsageInMB: JPEG_MAX_MEMORY_MB,
+      });
+      // jpeg-js ignores EXIF; browsers honour it, so it is applied here.
+      return orientPixels({ data: decoded.data, width: decoded.width, height: decoded.height }, readJpegOrientation(buffer));
+    }
+    throw new Error('Unsupported image format (expected PNG or JPEG)');
+  },
+};
+
+export const samplePixelsFromBytes = (bytes: Uint8Array): PixelData => sampleToCanvas(nodeDecoder.decode(bytes));
+
+export type ThumbnailFormat = 'png' | 'jpeg';
+
+export interface ThumbnailOptions {
+  // Bounding box; a missing side follows the source aspect ratio. Images are never enlarged.
+  width?: number;
+  height?: number;
+  format?: ThumbnailFormat;
+  quality?: number;
+}
+
+const encodePixels = ({ data, width, height }: PixelData, format: ThumbnailFormat, quality: number) => {
+  if (format === 'jpeg') {
+    return new Uint8Array(jpeg.encode({ data: Buffer.from(data as Uint8ClampedArray), width, height }, quality).data);
+  }
+  const png = new PNG({ width, height });
+  png.data = Buffer.from(data as Uint8ClampedArray);
+  return new Uint8Array(PNG.sync.write(png));
+};
+
+export const renderThumbnail = (bytes: Uint8Array, options: ThumbnailOptions) => {
+  const source = nodeDecoder.decode(bytes);
+  const scale = Math.min(
+    1,
+    options.width ? options.width / source.width : Infinity,
+    options.height ? options.height / source.height : Infinity,
+  );
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  // Resampling also flattens alpha, which JPEG cannot carry.
+  return encodePixels(resamplePixels(source, width, height), options.format ?? 'jpeg', options.quality ?? 82);
+};
@@ -0,0 +1,9 @@
+// Saves generated text (reports, exports) through a temporary object URL.
+export const downloadText = (contents: string, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { DuplicateCandidate } from './duplicates';
+import { findDuplicates } from './duplicates';
+
+const candidate = (id: number, image: string, embedding: number[]): DuplicateCandidate => ({
+  id,
+  extractor: 'color-stats@1',
+  embedding,
+  image,
+});
+
+// Vectors far enough apart that only the image URL can link a pair.
+const sameImage = (a: string, b: string) =>
+  findDuplicates([candidate(1, a, [1, 0, 0, 0, 0, 0]), candidate(2, b, [0, 1, 0, 0, 0, 0])]).length === 1;
+
+describe('findDuplicates', () => {
+  it('treats resize and tracking parameters as the same image', () => {
+    assert.ok(
+      sameImage(
+        'https://images.unsplash.com/photo-1?auto=format&fit=crop&w=900&q=80',
+        'https://images.unsplash.com/photo-1?w=600&fit=crop&utm_source=share',
+      ),
+    );
+    assert.ok(sameImage('https://cdn.shopify.com/s/files/1/shoe_200x200.jpg', 'https://cdn.shopify.com/s/files/1/shoe.jpg'));
+  });
+
+  it('keeps query parameters that select a different image', () => {
+    assert.ok(!sameImage('https://shop.example.com/image.php?id=1', 'https://shop.example.com/image.php?id=2'));
+    assert.ok(sameImage('https://shop.example.com/image.php?id=1&size=l', 'https://shop.example.com/image.php?size=l&id=1'));
+  });
+
+  it('links near-identical vectors and groups pairs transitively', () => {
+    const clusters = findDuplicates([
+      candidate(1, 'https://example.com/a.jpg', [0.5, 0.5, 0.5, 0.5, 0.2, 0.3]),
+      candidate(2, 'https://example.com/b.jpg', [0.5, 0.5, 0.5, 0.5, 0.2, 0.3]),
+      candidate(3, 'https://example.com/b.jpg?w=100', [0, 1, 0, 0, 0, 0]),
+      candidate(4, 'https://example.com/c.jpg', [1, 0, 0, 0, 0, 0]),
+    ]);
+    assert.deepEqual(
+      clusters.map((cluster) => cluster.ids),
+      [[1, 2, 3]],
+    );
+  });
+});
@@ -0,0 +1,165 @@
+import { getExtractor } from './extractors';
+import type { CatalogEmbedding } from './imageMatching';
+import { projectEmbedding } from './imageMatching';
+import { normalizeImageUrl } from './normalizeImageUrl';
+import type { PixelData } from './pixels';
+import { resamplePixels } from './pixels';
+
+// Near-duplicate detection across a catalog. Three independent signals mark a pair as suspected duplicates: the
+// same image URL, perceptual hashes within a few bits, or catalog vectors that are practically identical. Pairs
+// are then joined into clusters, so A≈B and B≈C put all three in one group.
+
+export type DuplicateReason = 'same-image' | 'image-hash' | 'embedding';
+
+export interface DuplicateOptions {
+  // Minimum vector similarity (0–100, as reported by rankCatalog). Low-dimensional extractors such as
+  // color-stats@1 score unrelated products in the high 90s, so only near-identical vectors count by default.
+  minSimilarity?: number;
+  // Maximum Hamming distance between two 64-bit image hashes.
+  maxHashDistance?: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: Required<DuplicateOptions> = { minSimilarity: 99.99, maxHashDistance: 6 };
+
+export interface DuplicateCandidate extends CatalogEmbedding {
+  image: string;
+  // perceptualHash() of the product image; null or absent when the image could not be read.
+  hash?: string | null;
+}
+
+export interface DuplicatePair {
+  a: number;
+  b: number;
+  reasons: DuplicateReason[];
+  similarity: number;
+  hashDistance?: number;
+}
+
+export interface DuplicateCluster {
+  // Ascending product ids.
+  ids: number[];
+  pairs: DuplicatePair[];
+}
+
+const HASH_WIDTH = 8;
+const HASH_HEIGHT = 8;
+
+// Difference hash: the image is shrunk to 9×8 grey cells and each bit records whether a cell is brighter than
+// its right-hand neighbour. Robust to rescaling, recompression and small colour shifts. 16 hex characters.
+export const perceptualHash = (pixels: PixelData) => {
+  const { data } = resamplePixels(pixels, HASH_WIDTH + 1, HASH_HEIGHT);
+  const luma = (x: number, y: number) => {
+    const offset = (y * (HASH_WIDTH + 1) + x) * 4;
+    return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y += 1) {
+    for (let x = 0; x < HASH_WIDTH; x += 4) {
+      let nibble = 0;
+      for (let bit = 0; bit < 4; bit += 1) {
+        nibble = (nibble << 1) | (luma(x + bit, y) > luma(x + bit + 1, y) ? 1 : 0);
+      }
+      hash += nibble.toString(16);
+    }
+  }
+  return hash;
+};
+
+export const hashDistance = (a: string, b: string) => {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare hashes of different lengths (${a.length} vs ${b.length})`);
+  }
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    let difference = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (difference > 0) {
+      distance += difference & 1;
+      difference >>= 1;
+    }
+  }
+  return distance;
+};
+
+// Parameters that only resize or re-encode (Unsplash `?w=`, imgix `?q=`); they do not make a different photo.
+const RESIZE_PARAMS = new Set(['w', 'h', 'width', 'height', 'q', 'quality', 'dpr', 'auto', 'fm', 'format']);
+
+// The normalised URL (see normalizeImageUrl) without resize parameters. Everything else in the query is kept, in a
+// stable order: `image.php?id=1` and `image.php?id=2` are different pictures.
+const imageKey = (image: string) => {
+  try {
+    const url = new URL(normalizeImageUrl(image));
+    RESIZE_PARAMS.forEach((name) => url.searchParams.delete(name));
+    url.searchParams.sort();
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return image;
+  }
+};
+
+export const findDuplicates = (candidates: DuplicateCandidate[], options: DuplicateOptions = {}): DuplicateCluster[] => {
+  const { minSimilarity, maxHashDistance } = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+  const projected = candidates.map((candidate) =>
+    projectEmbedding(candidate.embedding, getExtractor(candidate.extractor)),
+  );
+  const images = candidates.map((candidate) => imageKey(candidate.image));
+
+  // Union-find over candidate positions.
+  const parent = candidates.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < candidates.length; i += 1) {
+    for (let j = i + 1; j < candidates.length; j += 1) {
+      const a = candidates[i];
+      const b = candidates[j];
+      // Vectors from different extractors are not comparable; hashes and URLs still are.
+      const similarity =
+        a.extractor === b.extractor ? projected[i].reduce((sum, value, k) => sum + value * projected[j][k], 0) * 100 : 0;
+      const distance = a.hash && b.hash ? hashDistance(a.hash, b.hash) : undefined;
+
+      const reasons: DuplicateReason[] = [];
+      if (images[i] === images[j]) reasons.push('same-image');
+      if (distance !== undefined && distance <= maxHashDistance) reasons.push('image-hash');
+      if (similarity >= minSimilarity) reasons.push('embedding');
+      if (reasons.length === 0) {
+        continue;
+      }
+
+      pairs.push({ a: a.id, b: b.id, reasons, similarity, ...(distance === undefined ? {} : { hashDistance: distance }) });
+      parent[root(j)] = root(i);
+    }
+  }
+
+  const clusters = new Map<number, DuplicateCluster>();
+  const clusterOf = new Map(candidates.map((candidate, index) => [candidate.id, root(index)]));
+  for (const pair of pairs) {
+    const key = clusterOf.get(pair.a) as number;
+    const cluster = clusters.get(key) ?? { ids: [], pairs: [] };
+    cluster.pairs.push(pair);
+    clusters.set(key, cluster);
+  }
+  for (const [key, cluster] of clusters) {
+    cluster.ids = candidates
+      .filter((candidate) => clusterOf.get(candidate.id) === key)
+      .map((candidate) => candidate.id)
+      .sort((a, b) => a - b);
+  }
+  return [...clusters.values()].sort((a, b) => b.ids.length - a.ids.length || a.ids[0] - b.ids[0]);
+};
+
+// The `variantGroups` option of rankCatalog from cluster id lists: every member id maps to the same shared array.
+export const toVariantGroups = (clusters: number[][]) => {
+  const groups = new Map<number, number[]>();
+  for (const ids of clusters) {
+    ids.forEach((id) => groups.set(id, ids));
+  }
+  return groups;
+};
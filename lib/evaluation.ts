@@ -0,0 +1,236 @@
+import type { SourceRegion } from './pixels';
+
+// Offline ranking metrics for labelled query sets (see scripts/evaluate.ts). Relevance is binary: a product is
+// either one of the ids a query expects or it is not.
+
+export interface EvaluationQuery {
+  id: string;
+  // Image file (relative to the set file) or http(s) URL; a query has an image, a vector, text or a mix.
+  image?: string;
+  // A stored query vector, e.g. from the labelled pair export.
+  query?: { extractor: string; embedding: number[] };
+  text?: string;
+  region?: SourceRegion;
+  relevant: number[];
+  // Defaults to the category of the first relevant product.
+  category?: string;
+}
+
+export interface EvaluationSet {
+  queries: EvaluationQuery[];
+}
+
+// Metric name → mean value, e.g. { "recall@10": 0.82, "mrr": 0.64, "ndcg@10": 0.71 }.
+export type MetricSummary = Record<string, number>;
+
+export interface QueryOutcome {
+  id: string;
+  category: string;
+  relevant: number[];
+  // 1-based rank of the first relevant product; null when none was ranked.
+  firstRelevantRank: number | null;
+  // Top ids as ranked, up to the largest K.
+  top: number[];
+  metrics: MetricSummary;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  set: string;
+  catalog: string;
+  extractor: string;
+  ks: number[];
+  overall: MetricSummary;
+  categories: Record<string, { queries: number; metrics: MetricSummary }>;
+  queries: QueryOutcome[];
+  // Queries that could not be run (unreadable image, incompatible vector); they count toward no metric.
+  skipped: { id: string; reason: string }[];
+}
+
+export interface MetricChange {
+  // "overall" or a category name.
+  scope: string;
+  metric: string;
+  baseline: number | null;
+  current: number | null;
+  delta: number;
+  regression: boolean;
+}
+
+export const DEFAULT_KS = [1, 5, 10];
+
+export const recallAt = (ranked: number[], relevant: Set<number>, k: number) =>
+  relevant.size === 0 ? 0 : ranked.slice(0, k).filter((id) => relevant.has(id)).length / relevant.size;
+
+export const reciprocalRank = (ranked: number[], relevant: Set<number>) => {
+  const index = ranked.findIndex((id) => relevant.has(id));
+  return index === -1 ? 0 : 1 / (index + 1);
+};
+
+// Binary gains: a relevant product at rank r adds 1 / log2(r + 1), normalised by the best possible ordering.
+export const ndcgAt = (ranked: number[], relevant: Set<number>, k: number) => {
+  const gain = (rank: number) => 1 / Math.log2(rank + 1);
+  let dcg = 0;
+  ranked.slice(0, k).forEach((id, index) => {
+    if (relevant.has(id)) dcg += gain(index + 1);
+  });
+  let ideal = 0;
+  for (let rank = 1; rank <= Math.min(k, relevant.size); rank += 1) {
+    ideal += gain(rank);
+  }
+  return ideal === 0 ? 0 : dcg / ideal;
+};
+
+// `ranked` should be the full ranking, so MRR is not cut off at the largest K.
+export const scoreQuery = (ranked: number[], relevantIds: number[], ks: number[] = DEFAULT_KS): MetricSummary => {
+  const relevant = new Set(relevantIds);
+  const metrics: MetricSummary = {};
+  ks.forEach((k) => (metrics[`recall@${k}`] = recallAt(ranked, relevant, k)));
+  metrics.mrr = reciprocalRank(ranked, relevant);
+  ks.forEach((k) => (metrics[`ndcg@${k}`] = ndcgAt(ranked, relevant, k)));
+  return metrics;
+};
+
+const mean = (summaries: MetricSummary[]): MetricSummary => {
+  const totals: MetricSummary = {};
+  summaries.forEach((summary) =>
+    Object.entries(summary).forEach(([metric, value]) => (totals[metric] = (totals[metric] ?? 0) + value)),
+  );
+  return Object.fromEntries(Object.entries(totals).map(([metric, total]) => [metric, total / summaries.length]));
+};
+
+export const summarizeOutcomes = (outcomes: QueryOutcome[]) => {
+  const byCategory = new Map<string, QueryOutcome[]>();
+  outcomes.forEach((outcome) => byCategory.set(outcome.category, [...(byCategory.get(outcome.category) ?? []), outcome]));
+  return {
+    overall: outcomes.length === 0 ? {} : mean(outcomes.map((outcome) => outcome.metrics)),
+    categories: Object.fromEntries(
+      [...byCategory.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([category, members]) => [
+          category,
+          { queries: members.length, metrics: mean(members.map((member) => member.metrics)) },
+        ]),
+    ),
+  };
+};
+
+// Every metric of the overall summary and of each category present in either report. A drop larger than
+// `tolerance` (absolute, metrics are 0–1) is a regression; a category missing from the current run is one too.
+// A metric only one run has (a different K) is listed with a zero delta and never counts.
+export const compareReports = (
+  current: Pick<EvaluationReport, 'overall' | 'categories'>,
+  baseline: Pick<EvaluationReport, 'overall' | 'categories'>,
+  tolerance = 0.005,
+): MetricChange[] => {
+  const scopes: [string, MetricSummary | undefined, MetricSummary | undefined][] = [
+    ['overall', current.overall, baseline.overall],
+    ...[...new Set([...Object.keys(baseline.categories), ...Object.keys(current.categories)])]
+      .sort((a, b) => a.localeCompare(b))
+      .map((category): [string, MetricSummary | undefined, MetricSummary | undefined] => [
+        category,
+        current.categories[category]?.metrics,
+        baseline.categories[category]?.metrics,
+      ]),
+  ];
+
+  return scopes.flatMap(([scope, now, before]) =>
+    [...new Set([...Object.keys(before ?? {}), ...Object.keys(now ?? {})])].map((metric) => {
+      const baselineValue = before?.[metric] ?? null;
+      const currentValue = now?.[metric] ?? null;
+      const delta = baselineValue !== null && currentValue !== null ? currentValue - baselineValue : 0;
+      return {
+        scope,
+        metric,
+        baseline: baselineValue,
+        current: currentValue,
+        delta,
+        regression: baselineValue !== null && (now === undefined || delta < -tolerance),
+      };
+    }),
+  );
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFraction = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+// Accepts the set format described in the README and the labelled pair JSON export (`irrelevant` is ignored,
+// queries without a relevant product are dropped). Problems are collected and thrown together.
+export const parseEvaluationSet = (raw: unknown): EvaluationSet => {
+  if (!isRecord(raw) || !Array.isArray(raw.queries)) {
+    throw new Error('Evaluation set must be an object with a "queries" array');
+  }
+  const problems: string[] = [];
+  const queries: EvaluationQuery[] = [];
+  const ids = new Set<string>();
+
+  raw.queries.forEach((entry, index) => {
+    const where = `queries[${index}]`;
+    if (!isRecord(entry)) {
+      problems.push(`${where}: must be an object`);
+      return;
+    }
+    const id = typeof entry.id === 'string' && entry.id.trim() ? entry.id.trim() : `query-${index + 1}`;
+    if (ids.has(id)) {
+      problems.push(`${where}: duplicate id "${id}"`);
+    }
+    ids.add(id);
+
+    const relevant = Array.isArray(entry.relevant) ? entry.relevant : [];
+    if (!relevant.every((value) => Number.isInteger(value))) {
+      problems.push(`${where}: "relevant" must list product ids`);
+      return;
+    }
+    if (relevant.length === 0) {
+      return;
+    }
+
+    const image = typeof entry.image === 'string' && entry.image.trim() ? entry.image.trim() : undefined;
+    const text = typeof entry.text === 'string' && entry.text.trim() ? entry.text.trim() : undefined;
+    let query: EvaluationQuery['query'];
+    if (entry.query !== undefined && entry.query !== null) {
+      const vector = entry.query;
+      if (
+        !isRecord(vector) ||
+        typeof vector.extractor !== 'string' ||
+        !Array.isArray(vector.embedding) ||
+        !vector.embedding.every((value) => typeof value === 'number' && Number.isFinite(value))
+      ) {
+        problems.push(`${where}: "query" must be { extractor, embedding: number[] }`);
+        return;
+      }
+      query = { extractor: vector.extractor, embedding: vector.embedding as number[] };
+    }
+    if (!image && !query && !text) {
+      problems.push(`${where}: needs an "image", a "query" vector or "text"`);
+      return;
+    }
+
+    let region: SourceRegion | undefined;
+    if (entry.region !== undefined) {
+      const box = entry.region;
+      if (!isRecord(box) || ![box.x, box.y, box.width, box.height].every(isFraction)) {
+        problems.push(`${where}: "region" must be { x, y, width, height } as fractions of the image`);
+        return;
+      }
+      region = { x: box.x as number, y: box.y as number, width: box.width as number, height: box.height as number };
+    }
+
+    queries.push({
+      id,
+      ...(image ? { image } : {}),
+      ...(query ? { query } : {}),
+      ...(text ? { text } : {}),
+      ...(region ? { region } : {}),
+      relevant: relevant as number[],
+      ...(typeof entry.category === 'string' && entry.category.trim() ? { category: entry.category.trim() } : {}),
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Evaluation set has ${problems.length} problem(s):\n  ${problems.join('\n  ')}`);
+  }
+  return { queries };
+};
@@ -0,0 +1,124 @@
+import {
+  COLOR_HISTOGRAM_SIZE,
+  COLOR_STATS_SIZE,
+  EDGE_ORIENTATION_SIZE,
+  SPATIAL_GRID_SIZE,
+  computeColorHistogram,
+  computeColorStats,
+  computeEdgeOrientation,
+  computeSpatialGrid,
+} from './features';
+import type { PixelData } from './pixels';
+import { maskBackground } from './pixels';
+
+export interface ExtractorBlock {
+  name: string;
+  size: number;
+  weight: number;
+}
+
+export interface Extractor {
+  name: string;
+  version: number;
+  dimensions: number;
+  // Optional layout of the flat vector; blocks are scored separately and combined by weight.
+  blocks?: ExtractorBlock[];
+  // Labels for score breakdowns of block-less extractors, one per dimension.
+  dimensionNames?: string[];
+  extract: (pixels: PixelData) => number[];
+}
+
+export const extractorId = (extractor: Pick<Extractor, 'name' | 'version'>) => `${extractor.name}@${extractor.version}`;
+
+const assertPixels = ({ data, width, height }: PixelData) => {
+  if (width <= 0 || height <= 0 || data.length !== width * height * 4) {
+    throw new Error(`Pixel buffer does not match ${width}×${height} RGBA`);
+  }
+};
+
+export const colorStatsExtractor: Extractor = {
+  name: 'color-stats',
+  version: 1,
+  dimensions: COLOR_STATS_SIZE,
+  dimensionNames: ['red', 'green', 'blue', 'brightness', 'contrast', 'saturation'],
+  extract: (pixels) => {
+    assertPixels(pixels);
+    return computeColorStats(pixels.data);
+  },
+};
+
+// The demo catalogue's original vectors were typed in by hand to approximate color-stats@1, not computed from the
+// images. They keep their own id so nothing mistakes them for extractor output; queries against them still use the
+// color-stats features. Re-embedding with color-stats@1 replaces them.
+export const legacyColorStatsExtractor: Extractor = { ...colorStatsExtractor, name: 'color-stats-legacy' };
+
+export const colorGridEdgesExtractor: Extractor = {
+  name: 'color-grid-edges',
+  version: 2,
+  dimensions: COLOR_STATS_SIZE + COLOR_HISTOGRAM_SIZE + SPATIAL_GRID_SIZE + EDGE_ORIENTATION_SIZE,
+  blocks: [
+    { name: 'stats', size: COLOR_STATS_SIZE, weight: 1 },
+    { name: 'histogram', size: COLOR_HISTOGRAM_SIZE, weight: 1.5 },
+    { name: 'grid', size: SPATIAL_GRID_SIZE, weight: 1 },
+    { name: 'edges', size: EDGE_ORIENTATION_SIZE, weight: 0.75 },
+  ],
+  extract: (pixels) => {
+    assertPixels(pixels);
+    return [
+      ...computeColorStats(pixels.data),
+      ...computeColorHistogram(pixels.data),
+      ...computeSpatialGrid(pixels.data, pixels.width),
+      ...computeEdgeOrientation(pixels.data, pixels.width),
+    ];
+  },
+};
+
+// Masked variants compute the same features after maskBackground(). Their vectors live in a different space, so
+// they get their own id and are stored next to the plain ones in the catalog.
+export const MASKED_SUFFIX = '-masked';
+
+export const withBackgroundMask = (extractor: Extractor): Extractor => ({
+  ...extractor,
+  name: `${extractor.name}${MASKED_SUFFIX}`,
+  extract: (pixels) => extractor.extract(maskBackground(pixels)),
+});
+
+export const isMaskedExtractor = (extractor: Pick<Extractor, 'name'>) => extractor.name.endsWith(MASKED_SUFFIX);
+
+const registry = new Map<string, Extractor>();
+
+export const registerExtractor = (extractor: Extractor) => {
+  const id = extractorId(extractor);
+  if (registry.has(id)) {
+    throw new Error(`Extractor ${id} is already registered`);
+  }
+  const blockTotal = extractor.blocks?.reduce((sum, block) => sum + block.size, 0);
+  if (blockTotal !== undefined && blockTotal !== extractor.dimensions) {
+    throw new Error(`Extractor ${id} blocks cover ${blockTotal} of ${extractor.dimensions} dimensions`);
+  }
+  if (extractor.dimensionNames && extractor.dimensionNames.length !== extractor.dimensions) {
+    throw new Error(`Extractor ${id} names ${extractor.dimensionNames.length} of ${extractor.dimensions} dimensions`);
+  }
+  registry.set(id, extractor);
+  return extractor;
+};
+
+export const getExtractor = (id: string): Extractor => {
+  const extractor = registry.get(id);
+  if (!extractor) {
+    throw new Error(`Unknown extractor "${id}". Registered: ${[...registry.keys()].join(', ')}`);
+  }
+  return extractor;
+};
+
+// Newest registration first, so callers that pick "the best available" prefer richer extractors.
+export const listExtractors = (): Extractor[] => [...registry.values()].reverse();
+
+// Registered first, so any computed vectors a catalog also carries are preferred.
+registerExtractor(legacyColorStatsExtractor);
+registerExtractor(colorStatsExtractor);
+registerExtractor(colorGridEdgesExtractor);
+registerExtractor(withBackgroundMask(colorStatsExtractor));
+registerExtractor(withBackgroundMask(colorGridEdgesExtractor));
+
+export const DEFAULT_EXTRACTOR_ID = extractorId(colorGridEdgesExtractor);
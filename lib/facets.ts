@@ -0,0 +1,95 @@
+import type { Product } from './catalog';
+
+export interface FacetFilters {
+  categories: string[];
+  tags: string[];
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface CatalogFacets {
+  categories: FacetCount[];
+  tags: FacetCount[];
+  price: { min: number; max: number };
+}
+
+type FacetProduct = Pick<Product, 'category' | 'tags' | 'price'>;
+
+export const EMPTY_FILTERS: FacetFilters = { categories: [], tags: [], minPrice: null, maxPrice: null };
+
+const matchesCategory = (product: FacetProduct, filters: FacetFilters) =>
+  filters.categories.length === 0 || filters.categories.includes(product.category);
+
+// Tags are conjunctive: "leather" + "travel" means both.
+const matchesTags = (product: FacetProduct, filters: FacetFilters) =>
+  filters.tags.every((tag) => product.tags.includes(tag));
+
+const matchesPrice = (product: FacetProduct, filters: FacetFilters) =>
+  (filters.minPrice === null || product.price >= filters.minPrice) &&
+  (filters.maxPrice === null || product.price <= filters.maxPrice);
+
+export const matchesFilters = (product: FacetProduct, filters: FacetFilters) =>
+  matchesCategory(product, filters) && matchesTags(product, filters) && matchesPrice(product, filters);
+
+export const hasActiveFilters = (filters: FacetFilters) =>
+  filters.categories.length > 0 || filters.tags.length > 0 || filters.minPrice !== null || filters.maxPrice !== null;
+
+const countValues = (values: string[]): FacetCount[] => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+// Each facet is counted with every *other* active filter applied, so selecting a category still shows how many
+// products the remaining categories would add.
+export const computeFacets = (products: Product[], filters: FacetFilters = EMPTY_FILTERS): CatalogFacets => {
+  const prices = products.map((product) => product.price);
+  return {
+    categories: countValues(
+      products
+        .filter((product) => matchesTags(product, filters) && matchesPrice(product, filters))
+        .map((product) => product.category),
+    ),
+    tags: countValues(
+      // Tags narrow conjunctively, so their counts reflect the fully filtered set.
+      products.filter((product) => matchesFilters(product, filters)).flatMap((product) => product.tags),
+    ),
+    price: {
+      min: prices.length === 0 ? 0 : Math.min(...prices),
+      max: prices.length === 0 ? 0 : Math.max(...prices),
+    },
+  };
+};
+
+const parsePrice = (raw: string | null) => {
+  if (raw === null || raw.trim() === '') {
+    return null;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): FacetFilters => ({
+  categories: params.getAll('category').filter(Boolean),
+  tags: params.getAll('tag').filter(Boolean),
+  minPrice: parsePrice(params.get('minPrice')),
+  maxPrice: parsePrice(params.get('maxPrice')),
+});
+
+// Writes facet keys onto `base`, leaving unrelated parameters untouched.
+export const filtersToSearchParams = (filters: FacetFilters, base = new URLSearchParams()) => {
+  const params = new URLSearchParams(base);
+  ['category', 'tag', 'minPrice', 'maxPrice'].forEach((key) => params.delete(key));
+  filters.categories.forEach((category) => params.append('category', category));
+  filters.tags.forEach((tag) => params.append('tag', tag));
+  if (filters.minPrice !== null) params.set('minPrice', String(filters.minPrice));
+  if (filters.maxPrice !== null) params.set('maxPrice', String(filters.maxPrice));
+  return params;
+};
@@ -0,0 +1,243 @@
+// Pure feature math over RGBA pixel buffers; shared by every extractor in lib/extractors.ts. Pixels with alpha 0
+// have been masked out as background (see maskBackground) and are skipped by the color features.
+
+const HUE_BINS = 8;
+const SATURATION_BINS = 3;
+const VALUE_BINS = 3;
+const GRID_CELLS = 4;
+const EDGE_ORIENTATION_BINS = 8;
+// Sobel magnitude (on 0–1 luminance) above which a pixel counts towards edge density.
+const EDGE_MAGNITUDE_THRESHOLD = 0.25;
+// Bits kept per channel when bucketing pixels for dominant colors.
+const DOMINANT_COLOR_BITS = 3;
+
+export const COLOR_STATS_SIZE = 6;
+export const COLOR_HISTOGRAM_SIZE = HUE_BINS * SATURATION_BINS * VALUE_BINS;
+export const SPATIAL_GRID_SIZE = GRID_CELLS * GRID_CELLS * 3;
+export const EDGE_ORIENTATION_SIZE = EDGE_ORIENTATION_BINS + 1;
+
+// All in 0–1; contrast is the standard deviation of brightness, so it never exceeds 0.5.
+export interface ColorStats {
+  red: number;
+  green: number;
+  blue: number;
+  brightness: number;
+  contrast: number;
+  saturation: number;
+}
+
+export interface DominantColor {
+  color: [number, number, number];
+  // Fraction of the unmasked pixels in this color's bucket.
+  share: number;
+}
+
+export const measureColorStats = (data: ArrayLike<number>): ColorStats => {
+  let pixelCount = 0;
+  let redTotal = 0;
+  let greenTotal = 0;
+  let blueTotal = 0;
+  let brightnessTotal = 0;
+  let brightnessSquares = 0;
+  let saturationTotal = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) {
+      continue;
+    }
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    pixelCount += 1;
+    redTotal += r;
+    greenTotal += g;
+    blueTotal += b;
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const brightness = (r + g + b) / (3 * 255);
+    const saturation = max === 0 ? 0 : (max - min) / max;
+
+    brightnessTotal += brightness;
+    brightnessSquares += brightness * brightness;
+    saturationTotal += saturation;
+  }
+
+  if (pixelCount === 0) {
+    throw new Error('Cannot compute an embedding for an empty image');
+  }
+
+  const avgBrightness = brightnessTotal / pixelCount;
+  const brightnessVariance = brightnessSquares / pixelCount - avgBrightness * avgBrightness;
+  const contrast = Math.sqrt(Math.max(brightnessVariance, 0));
+  const avgSaturation = saturationTotal / pixelCount;
+
+  return {
+    red: redTotal / (pixelCount * 255),
+    green: greenTotal / (pixelCount * 255),
+    blue: blueTotal / (pixelCount * 255),
+    brightness: avgBrightness,
+    contrast,
+    saturation: avgSaturation,
+  };
+};
+
+// Mean RGB, brightness, contrast and saturation — the original six-number embedding.
+export const computeColorStats = (data: ArrayLike<number>): number[] => {
+  const stats = measureColorStats(data);
+  return normalizeVector([stats.red, stats.green, stats.blue, stats.brightness, stats.contrast, stats.saturation]);
+};
+
+// Buckets pixels on a coarse RGB lattice and reports the mean color of the most populated buckets, largest first.
+export const computeDominantColors = (data: ArrayLike<number>, count = 5): DominantColor[] => {
+  const shift = 8 - DOMINANT_COLOR_BITS;
+  const buckets = new Map<number, { r: number; g: number; b: number; pixels: number }>();
+  let pixelCount = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) {
+      continue;
+    }
+    pixelCount += 1;
+    const key =
+      ((data[i] >> shift) << (2 * DOMINANT_COLOR_BITS)) |
+      ((data[i + 1] >> shift) << DOMINANT_COLOR_BITS) |
+      (data[i + 2] >> shift);
+    const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, pixels: 0 };
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    bucket.pixels += 1;
+    buckets.set(key, bucket);
+  }
+
+  return [...buckets.values()]
+    .sort((a, b) => b.pixels - a.pixels)
+    .slice(0, count)
+    .map(({ r, g, b, pixels }) => ({
+      color: [Math.round(r / pixels), Math.round(g / pixels), Math.round(b / pixels)],
+      share: pixels / pixelCount,
+    }));
+};
+
+const rgbToHsv = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let hue = 0;
+
+  if (delta > 0) {
+    if (max === r) {
+      hue = ((g - b) / delta) % 6;
+    } else if (max === g) {
+      hue = (b - r) / delta + 2;
+    } else {
+      hue = (r - g) / delta + 4;
+    }
+    hue = (hue * 60 + 360) % 360;
+  }
+
+  return {
+    hue,
+    saturation: max === 0 ? 0 : delta / max,
+    value: max / 255,
+  };
+};
+
+const toBin = (value: number, bins: number) => Math.min(bins - 1, Math.floor(value * bins));
+
+export const computeColorHistogram = (data: ArrayLike<number>) => {
+  const histogram = new Array<number>(HUE_BINS * SATURATION_BINS * VALUE_BINS).fill(0);
+  let pixelCount = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) {
+      continue;
+    }
+    pixelCount += 1;
+    const { hue, saturation, value } = rgbToHsv(data[i], data[i + 1], data[i + 2]);
+    const hueBin = toBin(hue / 360, HUE_BINS);
+    const saturationBin = toBin(saturation, SATURATION_BINS);
+    const valueBin = toBin(value, VALUE_BINS);
+    histogram[(hueBin * SATURATION_BINS + saturationBin) * VALUE_BINS + valueBin] += 1;
+  }
+
+  return histogram.map((count) => (pixelCount === 0 ? 0 : count / pixelCount));
+};
+
+export const computeSpatialGrid = (data: ArrayLike<number>, width: number) => {
+  const height = data.length / 4 / width;
+  const cells = new Array<number>(GRID_CELLS * GRID_CELLS * 3).fill(0);
+  const counts = new Array<number>(GRID_CELLS * GRID_CELLS).fill(0);
+
+  for (let y = 0; y < height; y += 1) {
+    const row = toBin(y / height, GRID_CELLS);
+    for (let x = 0; x < width; x += 1) {
+      const cell = row * GRID_CELLS + toBin(x / width, GRID_CELLS);
+      const offset = (y * width + x) * 4;
+      if (data[offset + 3] === 0) {
+        continue;
+      }
+      cells[cell * 3] += data[offset];
+      cells[cell * 3 + 1] += data[offset + 1];
+      cells[cell * 3 + 2] += data[offset + 2];
+      counts[cell] += 1;
+    }
+  }
+
+  return cells.map((total, index) => {
+    const count = counts[Math.floor(index / 3)];
+    return count === 0 ? 0 : total / (count * 255);
+  });
+};
+
+// Magnitude-weighted histogram of unsigned Sobel gradient orientations, plus overall edge density. Masked pixels
+// still take part: the outline against the backdrop is shape information, and a plain backdrop adds no edges.
+export const computeEdgeOrientation = (data: ArrayLike<number>, width: number) => {
+  const height = data.length / 4 / width;
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i += 1) {
+    const offset = i * 4;
+    luminance[i] = (0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]) / 255;
+  }
+
+  const orientations = new Array<number>(EDGE_ORIENTATION_BINS).fill(0);
+  let edgePixels = 0;
+  let interiorPixels = 0;
+  const at = (x: number, y: number) => luminance[y * width + x];
+
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      const magnitude = Math.sqrt(gx * gx + gy * gy);
+      interiorPixels += 1;
+
+      if (magnitude === 0) {
+        continue;
+      }
+      if (magnitude > EDGE_MAGNITUDE_THRESHOLD) {
+        edgePixels += 1;
+      }
+      const angle = (Math.atan2(gy, gx) + Math.PI) % Math.PI;
+      orientations[toBin(angle / Math.PI, EDGE_ORIENTATION_BINS)] += magnitude;
+    }
+  }
+
+  const totalMagnitude = orientations.reduce((sum, value) => sum + value, 0);
+  return [
+    ...orientations.map((value) => (totalMagnitude === 0 ? 0 : value / totalMagnitude)),
+    interiorPixels === 0 ? 0 : edgePixels / interiorPixels,
+  ];
+};
+
+export const normalizeVector = (vector: number[]) => {
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (!Number.isFinite(magnitude) || magnitude === 0) {
+    return vector.map(() => 0);
+  }
+  return vector.map((value) => value / magnitude);
+};
@@ -0,0 +1,100 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// Content-addressed on-disk cache. `urls/<sha256(url)>.json` holds validators and points at
+// `blobs/<sha256(bytes)>`, so the same image reached through different URLs is stored once; thumbnails live in
+// `derived/`, keyed by the source hash plus transform. Cache failures are logged and never fail a request.
+export interface CacheEntry {
+  url: string;
+  contentHash: string;
+  contentType: string;
+  etag?: string;
+  lastModified?: string;
+  // Epoch milliseconds of the last successful fetch or revalidation.
+  fetchedAt: number;
+  maxAgeSeconds: number;
+}
+
+export interface ImageCache {
+  getEntry: (url: string) => Promise<CacheEntry | null>;
+  putEntry: (entry: CacheEntry) => Promise<void>;
+  getBlob: (contentHash: string) => Promise<Uint8Array | null>;
+  putBlob: (contentHash: string, bytes: Uint8Array) => Promise<void>;
+  getDerived: (key: string) => Promise<Uint8Array | null>;
+  putDerived: (key: string, bytes: Uint8Array) => Promise<void>;
+}
+
+// Upstream max-age is honoured up to a week; responses without one are kept for a day.
+const DEFAULT_LIFETIME_SECONDS = 24 * 60 * 60;
+const MAX_LIFETIME_SECONDS = 7 * 24 * 60 * 60;
+
+export const sha256 = (input: string | Uint8Array) => createHash('sha256').update(input).digest('hex');
+
+export const isFresh = (entry: CacheEntry, now = Date.now()) => now - entry.fetchedAt < entry.maxAgeSeconds * 1000;
+
+// Seconds a response may be served without revalidation; null when it must not be stored at all.
+export const cacheLifetime = (headers: Headers) => {
+  const cacheControl = headers.get('cache-control') ?? '';
+  if (/no-store|private/i.test(cacheControl)) {
+    return null;
+  }
+  if (/no-cache/i.test(cacheControl)) {
+    return 0;
+  }
+  const maxAge = /max-age=(\d+)/i.exec(cacheControl);
+  return maxAge ? Math.min(Number(maxAge[1]), MAX_LIFETIME_SECONDS) : DEFAULT_LIFETIME_SECONDS;
+};
+
+// Hex digests and derived keys only; anything else could escape the cache directory.
+const SAFE_NAME = /^[a-z0-9.-]+$/;
+
+export const createImageCache = (root: string): ImageCache => {
+  const locate = (folder: string, name: string) => {
+    if (!SAFE_NAME.test(name)) {
+      throw new Error(`Invalid cache key: ${name}`);
+    }
+    return path.join(root, folder, name);
+  };
+
+  const read = async (file: string) => {
+    try {
+      return new Uint8Array(await readFile(file));
+    } catch {
+      return null;
+    }
+  };
+
+  // Write-then-rename so a concurrent reader never sees a partial file.
+  const write = async (file: string, contents: string | Uint8Array) => {
+    try {
+      await mkdir(path.dirname(file), { recursive: true });
+      const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(temporary, contents);
+      await rename(temporary, file);
+    } catch (error) {
+      console.warn('Unable to write image cache file', file, error);
+    }
+  };
+
+  return {
+    getEntry: async (url) => {
+      const bytes = await read(locate('urls', `${sha256(url)}.json`));
+      if (!bytes) {
+        return null;
+      }
+      try {
+        const entry = JSON.parse(Buffer.from(bytes).toString('utf8')) as CacheEntry;
+        // Guards against a hash collision or a hand-edited file.
+        return entry.url === url ? entry : null;
+      } catch {
+        return null;
+      }
+    },
+    putEntry: (entry) => write(locate('urls', `${sha256(entry.url)}.json`), JSON.stringify(entry)),
+    getBlob: (contentHash) => read(locate('blobs', contentHash)),
+    putBlob: (contentHash, bytes) => write(locate('blobs', contentHash), bytes),
+    getDerived: (key) => read(locate('derived', key)),
+    putDerived: (key, bytes) => write(locate('derived', key), bytes),
+  };
+};
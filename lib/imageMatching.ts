@@ -1,83 +1,98 @@
+import type { AnnSearcher } from './annIndex';
+import type { DrawableImage } from './browserPixels';
+import { canvasDecoder } from './browserPixels';
+import type { Extractor } from './extractors';
+import { DEFAULT_EXTRACTOR_ID, extractorId, getExtractor, isMaskedExtractor, listExtractors } from './extractors';
+import { normalizeVector } from './features';
+import type { SourceRegion } from './pixels';
+import { cropPixels, sampleToCanvas } from './pixels';
+
+// Catalog records keep one vector per extractor id, e.g. { "color-stats@1": [...] }.
+export type EmbeddingSet = Record<string, number[]>;
+
 export interface CatalogEmbedding {
   id: number;
+  extractor: string;
   embedding: number[];
 }
 
+export interface MatchOptions {
+  // Per-block weight overrides for extractors that declare blocks, keyed by block name.
+  weights?: Record<string, number>;
+  // Approximate index over the same catalog; ignored when custom weights are supplied.
+  index?: AnnSearcher | null;
+  probes?: number;
+  // Applied before top-K selection, so filtering never shrinks the result list below topK needlessly.
+  filter?: (id: number) => boolean;
+  // Part of the query image to embed; findSimilarProducts only, rankCatalog already receives a vector.
+  region?: SourceRegion | null;
+  // Attach a per-block (or, for block-less extractors, per-dimension) breakdown to every returned score.
+  explain?: boolean;
+  // Near-duplicate groups keyed by each member id (see lib/duplicates.ts). Each group is returned once, as its
+  // best-scoring member, with the other members in `variants`.
+  variantGroups?: Map<number, number[]> | null;
+}
+
+export interface ScoreContribution {
+  // Block name, or dimension name/index for extractors without blocks.
+  name: string;
+  // Points this part adds to the 0–100 similarity; contributions sum to the unclamped score.
+  contribution: number;
+  // Cosine similarity of the block on its own, 0–100; absent for single dimensions.
+  similarity?: number;
+}
+
 export interface SimilarityScore {
   id: number;
   similarity: number;
+  // Cosine × 100 before calibration (lib/calibration.ts); absent when `similarity` is the raw score.
+  rawSimilarity?: number;
+  breakdown?: ScoreContribution[];
+  // Collapsed near-duplicates of this product, when variant groups were supplied.
+  variants?: number[];
 }
 
-const CANVAS_SIZE = 48;
-
-const createCanvas = () => {
-  const canvas = document.createElement('canvas');
-  canvas.width = CANVAS_SIZE;
-  canvas.height = CANVAS_SIZE;
-  const context = canvas.getContext('2d');
-  if (!context) {
-    throw new Error('Canvas context not available in this browser');
-  }
-  return context;
+export const getImageEmbedding = (
+  image: DrawableImage,
+  extractor: Extractor = getExtractor(DEFAULT_EXTRACTOR_ID),
+  region?: SourceRegion | null,
+): number[] => {
+  const pixels = canvasDecoder.decode(image);
+  return extractor.extract(sampleToCanvas(region ? cropPixels(pixels, region) : pixels));
 };
 
-export const getImageEmbedding = (image: HTMLImageElement): number[] => {
-  const ctx = createCanvas();
-  ctx.drawImage(image, 0, 0, CANVAS_SIZE, CANVAS_SIZE);
-  const { data } = ctx.getImageData(0, 0, CANVAS_SIZE, CANVAS_SIZE);
-
-  const pixelCount = CANVAS_SIZE * CANVAS_SIZE;
-  let redTotal = 0;
-  let greenTotal = 0;
-  let blueTotal = 0;
-  let brightnessTotal = 0;
-  let brightnessSquares = 0;
-  let saturationTotal = 0;
-
-  for (let i = 0; i < data.length; i += 4) {
-    const r = data[i];
-    const g = data[i + 1];
-    const b = data[i + 2];
-
-    redTotal += r;
-    greenTotal += g;
-    blueTotal += b;
-
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    const brightness = (r + g + b) / (3 * 255);
-    const saturation = max === 0 ? 0 : (max - min) / max;
-
-    brightnessTotal += brightness;
-    brightnessSquares += brightness * brightness;
-    saturationTotal += saturation;
-  }
+export interface ExtractorSelection {
+  // Match on background-masked vectors (the `-masked` extractor variants) instead of the plain ones.
+  maskBackground?: boolean;
+}
 
-  const avgBrightness = brightnessTotal / pixelCount;
-  const brightnessVariance = brightnessSquares / pixelCount - avgBrightness * avgBrightness;
-  const contrast = Math.sqrt(Math.max(brightnessVariance, 0));
-  const avgSaturation = saturationTotal / pixelCount;
-
-  return normalizeVector([
-    redTotal / (pixelCount * 255),
-    greenTotal / (pixelCount * 255),
-    blueTotal / (pixelCount * 255),
-    avgBrightness,
-    contrast,
-    avgSaturation,
-  ]);
-};
+// Picks the newest registered extractor that every catalog entry has a vector for. Background masking is opt-in:
+// both the catalog and the query must use the masked variant for their vectors to be comparable.
+export const selectCatalogExtractor = (
+  embeddingSets: EmbeddingSet[],
+  { maskBackground = false }: ExtractorSelection = {},
+): Extractor | null =>
+  listExtractors().find(
+    (extractor) =>
+      isMaskedExtractor(extractor) === maskBackground &&
+      embeddingSets.every((set) => set[extractorId(extractor)]?.length === extractor.dimensions),
+  ) ?? null;
 
-const normalizeVector = (vector: number[]) => {
-  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
-  if (!Number.isFinite(magnitude) || magnitude === 0) {
-    return vector.map(() => 0);
-  }
-  return vector.map((value) => value / magnitude);
-};
+export const toCatalogEmbeddings = (
+  products: { id: number; embeddings: EmbeddingSet }[],
+  extractor: string,
+): CatalogEmbedding[] =>
+  products.map((product) => ({
+    id: product.id,
+    extractor,
+    embedding: product.embeddings[extractor] ?? [],
+  }));
 
 const cosineSimilarity = (a: number[], b: number[]) => {
-  const length = Math.min(a.length, b.length);
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare vectors of different dimensions (${a.length} vs ${b.length})`);
+  }
+  const { length } = a;
   let dot = 0;
   let magA = 0;
   let magB = 0;
@@ -95,18 +110,199 @@ const cosineSimilarity = (a: number[], b: number[]) => {
   return dot / Math.sqrt(magA * magB);
 };
 
+// Weighted mean of per-block cosine similarities; a plain cosine when the extractor has no blocks.
+const scoreVectors = (query: number[], target: number[], extractor: Extractor, weights: Record<string, number>) => {
+  if (!extractor.blocks) {
+    return cosineSimilarity(query, normalizeVector(target));
+  }
+
+  let offset = 0;
+  let weightedTotal = 0;
+  let weightTotal = 0;
+
+  for (const block of extractor.blocks) {
+    const weight = weights[block.name] ?? block.weight;
+    const end = offset + block.size;
+    if (weight > 0) {
+      weightedTotal += weight * cosineSimilarity(query.slice(offset, end), normalizeVector(target.slice(offset, end)));
+      weightTotal += weight;
+    }
+    offset = end;
+  }
+
+  return weightTotal === 0 ? 0 : weightedTotal / weightTotal;
+};
+
+// Splits scoreVectors() into the share each block contributes. Block-less extractors are split per dimension:
+// the cosine is a sum of per-dimension products, so each term is that dimension's share.
+export const explainScore = (
+  query: number[],
+  target: number[],
+  extractor: Extractor,
+  weights: Record<string, number> = {},
+): ScoreContribution[] => {
+  if (!extractor.blocks) {
+    const normalizedQuery = normalizeVector(query);
+    const normalizedTarget = normalizeVector(target);
+    return normalizedQuery.map((value, index) => ({
+      name: extractor.dimensionNames?.[index] ?? `#${index}`,
+      contribution: value * normalizedTarget[index] * 100,
+    }));
+  }
+
+  const blockWeights = extractor.blocks.map((block) => Math.max(0, weights[block.name] ?? block.weight));
+  const weightTotal = blockWeights.reduce((sum, weight) => sum + weight, 0);
+  let offset = 0;
+
+  return extractor.blocks.map((block, index) => {
+    const end = offset + block.size;
+    const similarity = cosineSimilarity(query.slice(offset, end), normalizeVector(target.slice(offset, end))) * 100;
+    offset = end;
+    return {
+      name: block.name,
+      similarity,
+      contribution: weightTotal === 0 ? 0 : (similarity * blockWeights[index]) / weightTotal,
+    };
+  });
+};
+
+// Maps a vector into a space where a plain dot product equals scoreVectors(), so the ANN index can cluster it.
+export const projectEmbedding = (vector: number[], extractor: Extractor, weights: Record<string, number> = {}) => {
+  if (!extractor.blocks) {
+    return normalizeVector(vector);
+  }
+
+  const blockWeights = extractor.blocks.map((block) => Math.max(0, weights[block.name] ?? block.weight));
+  const weightTotal = blockWeights.reduce((sum, weight) => sum + weight, 0);
+  const projected: number[] = [];
+  let offset = 0;
+
+  extractor.blocks.forEach((block, index) => {
+    const scale = weightTotal === 0 ? 0 : Math.sqrt(blockWeights[index] / weightTotal);
+    projected.push(...normalizeVector(vector.slice(offset, offset + block.size)).map((value) => value * scale));
+    offset += block.size;
+  });
+
+  return projected;
+};
+
+// Vectors from different extractors live in unrelated spaces, so a mixed catalog is rejected outright.
+const assertComparable = (catalogEmbeddings: CatalogEmbedding[], extractor: Extractor) => {
+  const id = extractorId(extractor);
+  for (const entry of catalogEmbeddings) {
+    if (entry.extractor !== id) {
+      throw new Error(`Catalog entry #${entry.id} was embedded with ${entry.extractor}, expected ${id}`);
+    }
+    if (entry.embedding.length !== extractor.dimensions) {
+      throw new Error(
+        `Catalog entry #${entry.id} has ${entry.embedding.length} dimensions, ${id} produces ${extractor.dimensions}`,
+      );
+    }
+  }
+};
+
+// Keeps the first (best) score of every variant group and folds the rest of the group into it. `accepts` limits
+// the listed variants to products the current filters allow; scores must already be sorted best-first.
+export const collapseVariants = <Score extends { id: number }>(
+  scores: Score[],
+  groups: Map<number, number[]>,
+  accepts?: (id: number) => boolean,
+): (Score & { variants?: number[] })[] => {
+  const seen = new Set<number>();
+  return scores.flatMap((score) => {
+    if (seen.has(score.id)) {
+      return [];
+    }
+    const group = groups.get(score.id);
+    if (!group) {
+      return [score];
+    }
+    group.forEach((id) => seen.add(id));
+    const variants = group.filter((id) => id !== score.id && (!accepts || accepts(id)));
+    return [variants.length > 0 ? { ...score, variants } : score];
+  });
+};
+
+// Products that collapsing can hide; ranking asks for this many extra results so topK survive the collapse.
+const hiddenVariantCount = (groups: Map<number, number[]>) =>
+  [...new Set(groups.values())].reduce((total, group) => total + group.length - 1, 0);
+
+// DOM-free ranking for callers that already hold a query vector (e.g. the /api/match route).
+export const rankCatalog = (
+  query: Omit<CatalogEmbedding, 'id'>,
+  catalogEmbeddings: CatalogEmbedding[],
+  topK = 12,
+  options: MatchOptions = {},
+): SimilarityScore[] => {
+  if (catalogEmbeddings.length === 0) {
+    return [];
+  }
+
+  if (options.variantGroups && options.variantGroups.size > 0) {
+    const { variantGroups, ...rest } = options;
+    const ranked = rankCatalog(query, catalogEmbeddings, topK + hiddenVariantCount(variantGroups), rest);
+    return collapseVariants(ranked, variantGroups, options.filter).slice(0, topK);
+  }
+
+  const extractor = getExtractor(query.extractor);
+  if (query.embedding.length !== extractor.dimensions) {
+    throw new Error(
+      `Query embedding has ${query.embedding.length} dimensions, ${query.extractor} produces ${extractor.dimensions}`,
+    );
+  }
+  assertComparable(catalogEmbeddings, extractor);
+
+  const { index, filter } = options;
+  const weights = options.weights ?? {};
+  const withBreakdown = (scores: SimilarityScore[]) => {
+    if (!options.explain) {
+      return scores;
+    }
+    const embeddings = new Map(catalogEmbeddings.map((entry) => [entry.id, entry.embedding]));
+    return scores.map((score) => {
+      const target = embeddings.get(score.id);
+      return target ? { ...score, breakdown: explainScore(query.embedding, target, extractor, weights) } : score;
+    });
+  };
+
+  // Asking for the whole catalog gains nothing from the index, which could only return the probed lists.
+  if (index && !options.weights && index.extractor === query.extractor && topK < index.size) {
+    // A pre-filtered candidate list is a subset of what the index covers; restrict results to it.
+    const candidateIds =
+      catalogEmbeddings.length === index.size ? null : new Set(catalogEmbeddings.map((entry) => entry.id));
+    const accepts =
+      candidateIds || filter
+        ? (id: number) => (!candidateIds || candidateIds.has(id)) && (!filter || filter(id))
+        : undefined;
+    const approximate = index.search(query.embedding, topK, { probes: options.probes, filter: accepts });
+    if (approximate.length >= topK) {
+      return withBreakdown(approximate);
+    }
+    // The probed lists (fewer after a restrictive filter) can hold fewer than topK products; rescan exactly instead.
+  }
+
+  return withBreakdown(
+    (filter ? catalogEmbeddings.filter((entry) => filter(entry.id)) : catalogEmbeddings)
+      .map((entry) => ({
+        id: entry.id,
+        similarity: Math.max(0, scoreVectors(query.embedding, entry.embedding, extractor, weights) * 100),
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, topK),
+  );
+};
+
 export const findSimilarProducts = async (
-  sourceImage: HTMLImageElement,
+  sourceImage: DrawableImage,
   catalogEmbeddings: CatalogEmbedding[],
   topK = 12,
+  options: MatchOptions = {},
 ): Promise<SimilarityScore[]> => {
-  const imageEmbedding = getImageEmbedding(sourceImage);
-
-  return catalogEmbeddings
-    .map((entry) => ({
-      id: entry.id,
-      similarity: Math.max(0, cosineSimilarity(imageEmbedding, normalizeVector(entry.embedding)) * 100),
-    }))
-    .sort((a, b) => b.similarity - a.similarity)
-    .slice(0, topK);
+  if (catalogEmbeddings.length === 0) {
+    return [];
+  }
+
+  const extractor = getExtractor(catalogEmbeddings[0].extractor);
+  const embedding = getImageEmbedding(sourceImage, extractor, options.region);
+  return rankCatalog({ extractor: extractorId(extractor), embedding }, catalogEmbeddings, topK, options);
 };
@@ -0,0 +1,107 @@
+import type { AnnSearcher } from './annIndex';
+import { createIvfSearcher } from './annIndex';
+import { fitScoreDistribution } from './calibration';
+import { toVariantGroups } from './duplicates';
+import { extractorId, getExtractor } from './extractors';
+import type { CatalogEmbedding } from './imageMatching';
+import { getImageEmbedding, rankCatalog } from './imageMatching';
+import type { MatchWorkerRequest, MatchWorkerResponse } from './matchWorkerProtocol';
+
+// Dedicated worker that owns the catalog embeddings and runs embedding + ranking off the main thread. A match
+// yields to the message loop between stages, so a `cancel` that arrives mid-search stops it at the next stage.
+
+let catalog: CatalogEmbedding[] = [];
+let searcher: AnnSearcher | null = null;
+// Matches still running. A cancel for any other id arrived after its match finished and is ignored, so neither set
+// outlives its request.
+const inFlight = new Set<number>();
+const cancelled = new Set<number>();
+
+const post = (message: MatchWorkerResponse) => self.postMessage(message);
+
+const yieldToMessages = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// The previous catalog stays in place until the new one has loaded, so a failed load leaves the worker usable.
+const loadCatalog = (request: Extract<MatchWorkerRequest, { type: 'load-catalog' }>) => {
+  try {
+    let nextSearcher: AnnSearcher | null = null;
+    if (request.index) {
+      try {
+        nextSearcher = createIvfSearcher(request.index, request.catalog);
+      } catch (error) {
+        console.warn('Ignoring approximate index, using brute-force ranking', error);
+      }
+    }
+    const distribution = fitScoreDistribution(request.catalog);
+    catalog = request.catalog;
+    searcher = nextSearcher;
+    post({ type: 'catalog-loaded', size: catalog.length, indexed: searcher !== null, distribution });
+  } catch (error) {
+    post({ type: 'catalog-error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+const match = async ({ requestId, image, topK, options }: Extract<MatchWorkerRequest, { type: 'match' }>) => {
+  inFlight.add(requestId);
+  // Pinned when the request arrives: a load-catalog handled while this search yields (e.g. the masking toggle) must
+  // not swap the vectors between embedding and ranking.
+  const matchCatalog = catalog;
+  const matchSearcher = searcher;
+  const stop = () => {
+    if (!cancelled.has(requestId)) {
+      return false;
+    }
+    post({ type: 'cancelled', requestId });
+    return true;
+  };
+
+  try {
+    await yieldToMessages();
+    if (stop()) return;
+    if (matchCatalog.length === 0) {
+      throw new Error('Catalog has not been loaded into the worker');
+    }
+
+    const extractor = getExtractor(matchCatalog[0].extractor);
+    const embedding = getImageEmbedding(image, extractor, options.region);
+    image.close();
+
+    await yieldToMessages();
+    if (stop()) return;
+
+    const allowed = options.allowedIds ? new Set(options.allowedIds) : null;
+    const scores = rankCatalog({ extractor: extractorId(extractor), embedding }, matchCatalog, topK, {
+      index: options.exact ? null : matchSearcher,
+      probes: options.probes,
+      weights: options.weights,
+      explain: options.explain,
+      filter: allowed ? (id) => allowed.has(id) : undefined,
+      variantGroups: options.variantClusters ? toVariantGroups(options.variantClusters) : null,
+    });
+    if (stop()) return;
+    post({ type: 'result', requestId, scores, embedding });
+  } catch (error) {
+    post({ type: 'error', requestId, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    image.close();
+    inFlight.delete(requestId);
+    cancelled.delete(requestId);
+  }
+};
+
+self.onmessage = (event: MessageEvent<MatchWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'load-catalog':
+      loadCatalog(request);
+      break;
+    case 'match':
+      match(request);
+      break;
+    case 'cancel':
+      if (inFlight.has(request.requestId)) {
+        cancelled.add(request.requestId);
+      }
+      break;
+  }
+};
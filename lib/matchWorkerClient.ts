@@ -0,0 +1,126 @@
+import type { AnnIndexFile } from './annIndex';
+import type { ScoreDistribution } from './calibration';
+import type { CatalogEmbedding, SimilarityScore } from './imageMatching';
+import type { MatchWorkerOptions, MatchWorkerRequest, MatchWorkerResponse } from './matchWorkerProtocol';
+
+export interface WorkerMatch {
+  scores: SimilarityScore[];
+  // The query vector, for callers that want to keep or reuse it.
+  embedding: number[];
+}
+
+export interface LoadedWorkerCatalog {
+  size: number;
+  indexed: boolean;
+  // Calibration statistics of the loaded vectors; null for catalogs too small to fit.
+  distribution: ScoreDistribution | null;
+}
+
+export interface MatchWorkerClient {
+  loadCatalog: (catalog: CatalogEmbedding[], index: AnnIndexFile | null) => Promise<LoadedWorkerCatalog>;
+  // Takes ownership of `image`: it is transferred to the worker and unusable afterwards.
+  match: (image: ImageBitmap, topK: number, options?: MatchWorkerOptions, signal?: AbortSignal) => Promise<WorkerMatch>;
+  terminate: () => void;
+}
+
+interface Pending {
+  resolve: (match: WorkerMatch) => void;
+  reject: (error: Error) => void;
+}
+
+interface CatalogWaiter {
+  resolve: (loaded: LoadedWorkerCatalog) => void;
+  reject: (error: Error) => void;
+}
+
+const abortError = () => new DOMException('Search cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Returns null where workers are unavailable (SSR, very old browsers); callers fall back to findSimilarProducts.
+export const createMatchWorker = (): MatchWorkerClient | null => {
+  if (typeof Worker === 'undefined' || typeof createImageBitmap === 'undefined') {
+    return null;
+  }
+
+  const worker = new Worker(new URL('./matchWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, Pending>();
+  // The worker answers loads in the order they were sent.
+  const catalogWaiters: CatalogWaiter[] = [];
+  let nextRequestId = 1;
+
+  const send = (request: MatchWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+  worker.onmessage = (event: MessageEvent<MatchWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'catalog-loaded') {
+      catalogWaiters.shift()?.resolve({ size: message.size, indexed: message.indexed, distribution: message.distribution });
+      return;
+    }
+    if (message.type === 'catalog-error') {
+      catalogWaiters.shift()?.reject(new Error(message.message));
+      return;
+    }
+    if (message.requestId === undefined) {
+      console.error('Match worker error', message.type === 'error' ? message.message : message);
+      return;
+    }
+    const request = pending.get(message.requestId);
+    if (!request) {
+      // Already rejected on the main thread by an abort.
+      return;
+    }
+    pending.delete(message.requestId);
+    if (message.type === 'result') {
+      request.resolve({ scores: message.scores, embedding: message.embedding });
+    } else if (message.type === 'cancelled') {
+      request.reject(abortError());
+    } else {
+      request.reject(new Error(message.message));
+    }
+  };
+
+  worker.onerror = (event) => {
+    const error = new Error(`Match worker failed: ${event.message}`);
+    pending.forEach((request) => request.reject(error));
+    pending.clear();
+    catalogWaiters.splice(0).forEach((waiter) => waiter.reject(error));
+  };
+
+  return {
+    loadCatalog: (catalog, index) =>
+      new Promise((resolve, reject) => {
+        catalogWaiters.push({ resolve, reject });
+        send({ type: 'load-catalog', catalog, index });
+      }),
+    match: (image, topK, options = {}, signal) =>
+      new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          image.close();
+          reject(abortError());
+          return;
+        }
+        const requestId = nextRequestId;
+        nextRequestId += 1;
+        pending.set(requestId, { resolve, reject });
+        // The caller is released immediately; the worker drops the search at its next checkpoint.
+        signal?.addEventListener(
+          'abort',
+          () => {
+            if (pending.delete(requestId)) {
+              send({ type: 'cancel', requestId });
+              reject(abortError());
+            }
+          },
+          { once: true },
+        );
+        send({ type: 'match', requestId, image, topK, options }, [image]);
+      }),
+    terminate: () => {
+      worker.terminate();
+      pending.forEach((request) => request.reject(abortError()));
+      pending.clear();
+      catalogWaiters.splice(0).forEach((waiter) => waiter.reject(abortError()));
+    },
+  };
+};
@@ -0,0 +1,34 @@
+import type { AnnIndexFile } from './annIndex';
+import type { ScoreDistribution } from './calibration';
+import type { CatalogEmbedding, SimilarityScore } from './imageMatching';
+import type { SourceRegion } from './pixels';
+
+// Messages exchanged with lib/matchWorker.ts. Functions cannot cross the worker boundary, so facet filters travel
+// as the list of product ids that pass them.
+export interface MatchWorkerOptions {
+  weights?: Record<string, number>;
+  probes?: number;
+  // Omitted when no filter is active.
+  allowedIds?: number[];
+  region?: SourceRegion | null;
+  explain?: boolean;
+  // Rank without the approximate index, e.g. when every product needs a score.
+  exact?: boolean;
+  // Near-duplicate clusters as id lists; the worker rebuilds the variantGroups map from them.
+  variantClusters?: number[][];
+}
+
+export type MatchWorkerRequest =
+  | { type: 'load-catalog'; catalog: CatalogEmbedding[]; index: AnnIndexFile | null }
+  // `image` is transferred and closed by the worker once embedded.
+  | { type: 'match'; requestId: number; image: ImageBitmap; topK: number; options: MatchWorkerOptions }
+  | { type: 'cancel'; requestId: number };
+
+export type MatchWorkerResponse =
+  // `distribution` is fitted in the worker, since ranking the catalog against itself would stall the page.
+  | { type: 'catalog-loaded'; size: number; indexed: boolean; distribution: ScoreDistribution | null }
+  // Answers the load-catalog request in place of `catalog-loaded` when loading failed.
+  | { type: 'catalog-error'; message: string }
+  | { type: 'result'; requestId: number; scores: SimilarityScore[]; embedding: number[] }
+  | { type: 'cancelled'; requestId: number }
+  | { type: 'error'; requestId?: number; message: string };
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { NORMALIZE_RULES, findPageImage, normalizeImageUrl } from './normalizeImageUrl';
+
+// [pasted URL, expected URL] per rule; every rule has at least one rewrite and one look-alike it must leave alone.
+const CASES: Record<string, [string, string][]> = {
+  'google-imgres': [
+    [
+      'https://www.google.com/imgres?imgurl=https%3A%2F%2Fexample.com%2Fshoe.jpg&imgrefurl=https%3A%2F%2Fexample.com',
+      'https://example.com/shoe.jpg',
+    ],
+    ['https://images.google.co.uk/imgres?imgurl=https://example.com/a.png', 'https://example.com/a.png'],
+    [
+      'https://google.example.com/imgres?imgurl=https://example.com/a.png',
+      'https://google.example.com/imgres?imgurl=https://example.com/a.png',
+    ],
+  ],
+  'google-redirect': [
+    ['https://www.google.de/url?sa=t&url=https%3A%2F%2Fexample.com%2Fbag.jpg', 'https://example.com/bag.jpg'],
+    ['https://www.google.com/url?q=https://example.com/bag.jpg&utm_source=x', 'https://example.com/bag.jpg'],
+    ['https://notgoogle.com/url?q=https://example.com/bag.jpg', 'https://notgoogle.com/url?q=https://example.com/bag.jpg'],
+  ],
+  'facebook-redirect': [
+    ['https://l.facebook.com/l.php?u=https%3A%2F%2Fexample.com%2Fhat.jpg&h=AT0', 'https://example.com/hat.jpg'],
+    ['https://www.facebook.com/l.php?u=https://example.com/hat.jpg', 'https://www.facebook.com/l.php?u=https://example.com/hat.jpg'],
+  ],
+  'bing-images': [
+    [
+      'https://www.bing.com/images/search?view=detailV2&mediaurl=https%3A%2F%2Fexample.com%2Flamp.jpg',
+      'https://example.com/lamp.jpg',
+    ],
+    ['https://www.bing.com/search?q=lamp', 'https://www.bing.com/search?q=lamp'],
+  ],
+  unsplash: [
+    [
+      'https://images.unsplash.com/photo-1542291026-7eec264c27ff?w=400&utm_source=share',
+      'https://images.unsplash.com/photo-1542291026-7eec264c27ff?w=400&auto=format&fit=crop&fm=jpg',
+    ],
+    [
+      'https://images.unsplash.com/photo-1?auto=compress&fit=max&fm=png',
+      'https://images.unsplash.com/photo-1?auto=compress&fit=max&fm=png',
+    ],
+  ],
+  shopify: [
+    [
+      'https://cdn.shopify.com/s/files/1/products/shoe_200x200@2x.jpg?v=123',
+      'https://cdn.shopify.com/s/files/1/products/shoe.jpg?v=123&width=1024',
+    ],
+    [
+      'https://shop.example.com/cdn/shop/products/bag_large_crop_center.png?width=100&height=100',
+      'https://shop.example.com/cdn/shop/products/bag.png?width=1024',
+    ],
+  ],
+  amazon: [
+    [
+      'https://m.media-amazon.com/images/I/71abcDEF._AC_SX300_SY300_QL70_.jpg?tag=x',
+      'https://m.media-amazon.com/images/I/71abcDEF._AC_SL1024_.jpg',
+    ],
+    ['https://images-na.ssl-images-amazon.com/images/I/81xyz.png', 'https://images-na.ssl-images-amazon.com/images/I/81xyz._AC_SL1024_.png'],
+  ],
+  cloudinary: [
+    [
+      'https://res.cloudinary.com/demo/image/upload/c_fill,w_150/e_sharpen/v123/shoe.png',
+      'https://res.cloudinary.com/demo/image/upload/c_limit,w_1024,f_jpg/v123/shoe.png',
+    ],
+    [
+      'https://res.cloudinary.com/demo/image/upload/my_shoe.png',
+      'https://res.cloudinary.com/demo/image/upload/c_limit,w_1024,f_jpg/my_shoe.png',
+    ],
+    [
+      'https://res.cloudinary.com/demo/image/upload/ab_products/shoe.png',
+      'https://res.cloudinary.com/demo/image/upload/c_limit,w_1024,f_jpg/ab_products/shoe.png',
+    ],
+    [
+      'https://res.cloudinary.com/demo/image/upload/w_300/v2/w_folder/shoe.jpg',
+      'https://res.cloudinary.com/demo/image/upload/c_limit,w_1024,f_jpg/v2/w_folder/shoe.jpg',
+    ],
+    [
+      'https://res.cloudinary.com/demo/image/upload/w_300/w_shoe.png',
+      'https://res.cloudinary.com/demo/image/upload/c_limit,w_1024,f_jpg/w_shoe.png',
+    ],
+    ['https://res.cloudinary.com/demo/image/upload/', 'https://res.cloudinary.com/demo/image/upload/'],
+  ],
+  imgix: [
+    [
+      'https://brand.imgix.net/products/mug.png?w=200&h=200&crop=faces&dpr=2',
+      'https://brand.imgix.net/products/mug.png?w=1024&fit=max&fm=jpg',
+    ],
+  ],
+  pinterest: [
+    ['https://i.pinimg.com/236x/ab/cd/ef.jpg', 'https://i.pinimg.com/736x/ab/cd/ef.jpg'],
+    ['https://i.pinimg.com/originals/ab/cd/ef.png', 'https://i.pinimg.com/736x/ab/cd/ef.png'],
+  ],
+};
+
+describe('normalizeImageUrl', () => {
+  it('has cases for every rule', () => {
+    assert.deepEqual(Object.keys(CASES).sort(), NORMALIZE_RULES.map((rule) => rule.name).sort());
+  });
+
+  for (const [rule, cases] of Object.entries(CASES)) {
+    describe(rule, () => {
+      for (const [input, expected] of cases) {
+        it(input, () => assert.equal(normalizeImageUrl(input), expected));
+      }
+    });
+  }
+
+  it('unwraps nested wrappers', () => {
+    const inner = `https://www.bing.com/images/search?mediaurl=${encodeURIComponent('https://i.pinimg.com/236x/a/b.jpg')}`;
+    assert.equal(
+      normalizeImageUrl(`https://www.google.com/url?url=${encodeURIComponent(inner)}`),
+      'https://i.pinimg.com/736x/a/b.jpg',
+    );
+  });
+
+  it('strips tracking parameters on other hosts and leaves non-URLs alone', () => {
+    assert.equal(normalizeImageUrl('https://example.com/a.jpg?utm_medium=x&fbclid=1&v=2'), 'https://example.com/a.jpg?v=2');
+    assert.equal(normalizeImageUrl('not a url'), 'not a url');
+  });
+});
+
+describe('findPageImage', () => {
+  it('prefers og:image and resolves it against the page', () => {
+    const html = `<meta name="twitter:image" content="/t.jpg"><meta property="og:image" content="/images/og.jpg?utm_source=x">`;
+    assert.equal(findPageImage(html, 'https://shop.example.com/p/1'), 'https://shop.example.com/images/og.jpg');
+  });
+
+  it('returns null without image hints', () => {
+    assert.equal(findPageImage('<title>No image</title>', 'https://example.com'), null);
+  });
+});
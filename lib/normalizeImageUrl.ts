@@ -1,31 +1,219 @@
-export const normalizeImageUrl = (rawUrl: string): string => {
-  try {
-    const parsed = new URL(rawUrl);
+// Host-specific rewrites that turn whatever users paste (search-result wrappers, CDN thumbnails, links with tracking
+// parameters) into a direct image URL at a resolution worth matching against. Shared by the browser and the proxy.
+export interface NormalizeRule {
+  name: string;
+  matches: (url: URL) => boolean;
+  // A string is an unwrapped target and is normalised again from scratch; a URL is the final rewrite.
+  apply: (url: URL) => URL | string | null;
+}
 
-    // Google Images often provides "imgres" wrapper URLs with the actual asset inside the imgurl param.
-    if (parsed.hostname.includes('google.') && parsed.pathname.includes('/imgres')) {
-      const actualImageUrl = parsed.searchParams.get('imgurl');
-      if (actualImageUrl) {
-        return normalizeImageUrl(actualImageUrl);
-      }
-    }
+// Long edge requested from resizing CDNs: comfortably above the 48×48 sample, well below multi-megabyte originals.
+const TARGET_SIZE = 1024;
+// Wrappers can nest (a Google redirect to a Bing result, say), but never legitimately this deep.
+const MAX_UNWRAP_DEPTH = 5;
 
-    if (parsed.hostname.includes('images.unsplash.com')) {
-      const params = parsed.searchParams;
-      if (!params.has('auto')) {
-        params.set('auto', 'format');
-      }
-      if (!params.has('fit')) {
-        params.set('fit', 'crop');
+const TRACKING_PARAMS = [/^utm_/, /^(fbclid|gclid|dclid|msclkid|yclid|igshid|mc_cid|mc_eid|_hsenc|_hsmkt)$/];
+
+const hostIs = (url: URL, ...domains: string[]) =>
+  domains.some((domain) => url.hostname === domain || url.hostname.endsWith(`.${domain}`));
+
+// google.com, www.google.de, images.google.co.uk; not google.example.com or notgoogle.com.
+const isGoogleHost = (url: URL) => /(^|\.)google\.([a-z]{2,3}|com?\.[a-z]{2})$/.test(url.hostname);
+
+// Transformation parameters Cloudinary accepts in a URL segment (`w_150`, `c_fill`, `$width_100`, …).
+const CLOUDINARY_PARAMS = new Set([
+  'a', 'ac', 'af', 'ar', 'b', 'bo', 'br', 'c', 'co', 'cs', 'd', 'dl', 'dn', 'dpr', 'du', 'e', 'eo', 'f', 'fl', 'fn',
+  'fps', 'g', 'h', 'if', 'ki', 'l', 'o', 'p', 'pg', 'q', 'r', 'so', 'sp', 't', 'u', 'vc', 'vs', 'w', 'x', 'y', 'z',
+]);
+
+const isCloudinaryTransformation = (segment: string) =>
+  segment !== '' &&
+  segment.split(',').every((part) => {
+    const match = /^(\$?[a-z]+)_./.exec(part);
+    return match !== null && (match[1].startsWith('$') || CLOUDINARY_PARAMS.has(match[1]));
+  });
+
+const stripTrackingParams = (url: URL) => {
+  [...url.searchParams.keys()]
+    .filter((key) => TRACKING_PARAMS.some((pattern) => pattern.test(key)))
+    .forEach((key) => url.searchParams.delete(key));
+};
+
+export const NORMALIZE_RULES: NormalizeRule[] = [
+  {
+    name: 'google-imgres',
+    matches: (url) => isGoogleHost(url) && url.pathname.includes('/imgres'),
+    apply: (url) => url.searchParams.get('imgurl'),
+  },
+  {
+    name: 'google-redirect',
+    matches: (url) => isGoogleHost(url) && url.pathname === '/url',
+    apply: (url) => url.searchParams.get('url') ?? url.searchParams.get('q'),
+  },
+  {
+    name: 'facebook-redirect',
+    matches: (url) => hostIs(url, 'l.facebook.com', 'lm.facebook.com') && url.pathname === '/l.php',
+    apply: (url) => url.searchParams.get('u'),
+  },
+  {
+    // Image result pages carry the original in `mediaurl`.
+    name: 'bing-images',
+    matches: (url) => hostIs(url, 'bing.com') && url.pathname.startsWith('/images/'),
+    apply: (url) => url.searchParams.get('mediaurl'),
+  },
+  {
+    name: 'unsplash',
+    matches: (url) => hostIs(url, 'images.unsplash.com'),
+    apply: (url) => {
+      if (!url.searchParams.has('auto')) url.searchParams.set('auto', 'format');
+      if (!url.searchParams.has('fit')) url.searchParams.set('fit', 'crop');
+      if (!url.searchParams.has('fm')) url.searchParams.set('fm', 'jpg');
+      return url;
+    },
+  },
+  {
+    // products/shoe_200x200@2x.jpg → products/shoe.jpg?width=1024
+    name: 'shopify',
+    matches: (url) => hostIs(url, 'cdn.shopify.com') || url.pathname.startsWith('/cdn/shop/'),
+    apply: (url) => {
+      url.pathname = url.pathname.replace(
+        /_(\d+x\d*|\d*x\d+|pico|icon|thumb|small|compact|medium|large|grande|master)(_crop_\w+)?(@\dx)?(?=\.\w+$)/,
+        '',
+      );
+      ['width', 'height', 'crop'].forEach((key) => url.searchParams.delete(key));
+      url.searchParams.set('width', String(TARGET_SIZE));
+      return url;
+    },
+  },
+  {
+    // I/71abc._AC_SX300_SY300_QL70_.jpg → I/71abc._AC_SL1024_.jpg
+    name: 'amazon',
+    matches: (url) => hostIs(url, 'media-amazon.com', 'ssl-images-amazon.com', 'images-amazon.com'),
+    apply: (url) => {
+      url.pathname = url.pathname.replace(
+        /(\/images\/I\/[^./]+)(\.[^/]*)?\.(jpe?g|png|gif|webp)$/i,
+        `$1._AC_SL${TARGET_SIZE}_.$3`,
+      );
+      url.search = '';
+      return url;
+    },
+  },
+  {
+    // image/upload/c_fill,w_150/e_sharpen/v123/shoe.png → image/upload/c_limit,w_1024,f_jpg/v123/shoe.png
+    // Only leading segments made entirely of known transformation parameters are replaced; the version (v123) or
+    // the first other segment starts the public id, which keeps its folders (my_shoe.png, ab_products/shoe.png).
+    name: 'cloudinary',
+    matches: (url) => hostIs(url, 'res.cloudinary.com') && url.pathname.includes('/image/upload/'),
+    apply: (url) => {
+      const [prefix, rest] = url.pathname.split('/image/upload/');
+      const segments = rest.split('/');
+      let firstAsset = 0;
+      // The last segment is always the asset, even when it looks like a transformation.
+      while (
+        firstAsset < segments.length - 1 &&
+        !/^v\d+$/.test(segments[firstAsset]) &&
+        isCloudinaryTransformation(segments[firstAsset])
+      ) {
+        firstAsset += 1;
       }
-      if (!params.has('fm')) {
-        params.set('fm', 'jpg');
+      const asset = segments.slice(firstAsset).join('/');
+      if (asset === '') {
+        return null;
       }
-      parsed.search = params.toString();
-      return parsed.toString();
+      // f_jpg rather than f_auto: the server-side decoder only reads PNG and JPEG.
+      url.pathname = `${prefix}/image/upload/c_limit,w_${TARGET_SIZE},f_jpg/${asset}`;
+      return url;
+    },
+  },
+  {
+    name: 'imgix',
+    matches: (url) => hostIs(url, 'imgix.net'),
+    apply: (url) => {
+      ['h', 'dpr', 'crop', 'rect', 'auto'].forEach((key) => url.searchParams.delete(key));
+      url.searchParams.set('w', String(TARGET_SIZE));
+      url.searchParams.set('fit', 'max');
+      url.searchParams.set('fm', 'jpg');
+      return url;
+    },
+  },
+  {
+    // i.pinimg.com/236x/ab/cd/ef.jpg → i.pinimg.com/736x/ab/cd/ef.jpg; /originals/ can be PNG or GIF regardless of
+    // extension, 736x is always a JPEG.
+    name: 'pinterest',
+    matches: (url) => hostIs(url, 'pinimg.com'),
+    apply: (url) => {
+      url.pathname = url.pathname.replace(/^\/(\d+x\d*|\d*x\d+|originals)\//, '/736x/');
+      return url;
+    },
+  },
+];
+
+const normalize = (rawUrl: string, depth: number): string => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return rawUrl;
+  }
+
+  stripTrackingParams(url);
+  const rule = NORMALIZE_RULES.find((candidate) => candidate.matches(url));
+  if (!rule) {
+    return url.toString();
+  }
+
+  const result = rule.apply(url);
+  if (result === null) {
+    return url.toString();
+  }
+  if (typeof result === 'string') {
+    return depth < MAX_UNWRAP_DEPTH ? normalize(result, depth + 1) : result;
+  }
+  return result.toString();
+};
+
+export const normalizeImageUrl = (rawUrl: string): string => normalize(rawUrl, 0);
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const readAttributes = (tag: string) => {
+  const attributes = new Map<string, string>();
+  for (const match of tag.matchAll(/([a-z:_-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+    attributes.set(match[1].toLowerCase(), decodeEntities(match[3] ?? match[4] ?? match[5] ?? ''));
+  }
+  return attributes;
+};
+
+// Preferred product-image hints on an HTML page, most specific first.
+const IMAGE_META_KEYS = ['og:image:secure_url', 'og:image:url', 'og:image', 'twitter:image', 'twitter:image:src'];
+
+// Finds the product image a page advertises for link previews, resolved against the page URL and normalised.
+export const findPageImage = (html: string, pageUrl: string): string | null => {
+  const candidates = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<(meta|link)\b[^>]*>/gi)) {
+    const attributes = readAttributes(tag);
+    const key = (attributes.get('property') ?? attributes.get('name') ?? attributes.get('rel') ?? '').toLowerCase();
+    const value = attributes.get('content') ?? attributes.get('href');
+    if (value && !candidates.has(key)) {
+      candidates.set(key, value);
     }
-  } catch (error) {
-    console.warn('Unable to normalise image URL', rawUrl, error);
   }
-  return rawUrl;
+
+  const found = [...IMAGE_META_KEYS, 'image_src'].map((key) => candidates.get(key)).find(Boolean);
+  if (!found) {
+    return null;
+  }
+  try {
+    return normalizeImageUrl(new URL(found, pageUrl).toString());
+  } catch {
+    return null;
+  }
 };
@@ -0,0 +1,120 @@
+import type { CalibrationMethod } from './calibration';
+import { isCalibrationMethod } from './calibration';
+import { catalogFromSearchParams, catalogToSearchParams } from './catalogs';
+import { extractorId, listExtractors } from './extractors';
+import type { FacetFilters } from './facets';
+import { filtersFromSearchParams, filtersToSearchParams } from './facets';
+import type { CatalogEmbedding } from './imageMatching';
+import type { FusionMode } from './textSearch';
+
+// Shareable search links. The query vector travels in the URL instead of the image, so whoever opens the link
+// re-ranks the catalog and sees the same list without the original photo:
+//
+//   /?catalog=brand-a&q=<base64url float32>&extractor=color-grid-edges@2&min=40&calibration=percentile&text=red+shoes
+
+export type QueryVector = Omit<CatalogEmbedding, 'id'>;
+
+export interface SharedSearch {
+  catalog: string;
+  // Null for text-only searches.
+  query: QueryVector | null;
+  text: string;
+  // Percentages, as on the sliders.
+  textWeight: number;
+  fusion: FusionMode;
+  threshold: number;
+  // Scale `threshold` and the displayed scores are on; links and sessions from before calibration are 'none'.
+  calibration: CalibrationMethod;
+  filters: FacetFilters;
+}
+
+export const DEFAULT_TEXT_WEIGHT = 35;
+export const DEFAULT_THRESHOLD = 30;
+
+const SHARED_KEYS = ['q', 'extractor', 'text', 'textWeight', 'fusion', 'min', 'calibration'];
+
+// Float32 halves the link length; the lost precision moves scores by far less than the displayed rounding.
+export const encodeVector = (vector: number[]) => {
+  const view = new DataView(new ArrayBuffer(vector.length * 4));
+  vector.forEach((value, index) => view.setFloat32(index * 4, value, true));
+  let binary = '';
+  new Uint8Array(view.buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeVector = (encoded: string): number[] | null => {
+  let binary: string;
+  try {
+    binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  } catch {
+    return null;
+  }
+  if (binary.length % 4 !== 0) {
+    return null;
+  }
+  const view = new DataView(Uint8Array.from(binary, (char) => char.charCodeAt(0)).buffer);
+  const vector = Array.from({ length: binary.length / 4 }, (_, index) => view.getFloat32(index * 4, true));
+  return vector.every(Number.isFinite) ? vector : null;
+};
+
+// Unknown extractors and vectors of the wrong size are dropped rather than failing later in rankCatalog.
+const parseQuery = (params: URLSearchParams): QueryVector | null => {
+  const encoded = params.get('q');
+  const id = params.get('extractor');
+  const extractor = listExtractors().find((candidate) => extractorId(candidate) === id);
+  if (!encoded || !extractor) {
+    return null;
+  }
+  const embedding = decodeVector(encoded);
+  return embedding && embedding.length === extractor.dimensions ? { extractor: extractorId(extractor), embedding } : null;
+};
+
+const parsePercent = (raw: string | null, fallback: number) => {
+  const value = raw === null ? NaN : Number(raw);
+  return Number.isFinite(value) ? Math.min(100, Math.max(0, Math.round(value))) : fallback;
+};
+
+// Null when the URL describes no search (neither a query vector nor text).
+export const sharedSearchFromParams = (params: URLSearchParams): SharedSearch | null => {
+  const query = parseQuery(params);
+  const text = params.get('text')?.trim() ?? '';
+  const calibration = params.get('calibration');
+  if (!query && !text) {
+    return null;
+  }
+  return {
+    catalog: catalogFromSearchParams(params),
+    query,
+    text,
+    textWeight: parsePercent(params.get('textWeight'), DEFAULT_TEXT_WEIGHT),
+    fusion: params.get('fusion') === 'rrf' ? 'rrf' : 'weighted',
+    threshold: parsePercent(params.get('min'), DEFAULT_THRESHOLD),
+    calibration: isCalibrationMethod(calibration) ? calibration : 'none',
+    filters: filtersFromSearchParams(params),
+  };
+};
+
+// Drops the search keys from `base`; catalog and facet keys are left alone.
+export const clearSharedSearchParams = (base: URLSearchParams) => {
+  const params = new URLSearchParams(base);
+  SHARED_KEYS.forEach((key) => params.delete(key));
+  return params;
+};
+
+export const sharedSearchToParams = (search: SharedSearch, base = new URLSearchParams()) => {
+  const params = catalogToSearchParams(search.catalog, filtersToSearchParams(search.filters, clearSharedSearchParams(base)));
+  if (search.query) {
+    params.set('q', encodeVector(search.query.embedding));
+    params.set('extractor', search.query.extractor);
+  }
+  if (search.text) {
+    params.set('text', search.text);
+    params.set('textWeight', String(search.textWeight));
+    if (search.fusion !== 'weighted') params.set('fusion', search.fusion);
+  }
+  params.set('min', String(search.threshold));
+  if (search.calibration !== 'none') params.set('calibration', search.calibration);
+  return params;
+};
@@ -0,0 +1,188 @@
+// Decoding is platform specific (canvas in the browser, pngjs/jpeg-js in Node); everything after it is shared
+// so both paths hand identical CANVAS_SIZE grids to the extractors.
+
+export const CANVAS_SIZE = 48;
+
+export interface PixelData {
+  // RGBA, row-major, 4 bytes per pixel, straight (non-premultiplied) alpha.
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+}
+
+export interface ImageDecoder<Input> {
+  name: string;
+  // Full-resolution pixels; no scaling happens here.
+  decode: (input: Input) => PixelData;
+}
+
+// Fractions (0–1) of the source image, so a box drawn on a scaled-down preview applies unchanged to the
+// full-resolution pixels.
+export interface SourceRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_REGION: SourceRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+// Copies the pixels inside `region`, rounded outwards to whole pixels and never smaller than one.
+export const cropPixels = ({ data, width, height }: PixelData, region: SourceRegion): PixelData => {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const left = Math.min(width - 1, Math.floor(clamp(region.x) * width));
+  const top = Math.min(height - 1, Math.floor(clamp(region.y) * height));
+  const right = Math.max(left + 1, Math.ceil(clamp(region.x + region.width) * width));
+  const bottom = Math.max(top + 1, Math.ceil(clamp(region.y + region.height) * height));
+  const cropWidth = right - left;
+  const cropHeight = bottom - top;
+
+  const output = new Uint8ClampedArray(cropWidth * cropHeight * 4);
+  for (let y = 0; y < cropHeight; y += 1) {
+    for (let i = 0; i < cropWidth * 4; i += 1) {
+      output[y * cropWidth * 4 + i] = data[((top + y) * width + left) * 4 + i];
+    }
+  }
+  return { data: output, width: cropWidth, height: cropHeight };
+};
+
+// Transparent pixels are composited over white, so a cut-out product reads like a studio shot regardless of
+// the RGB values an encoder left behind under alpha 0.
+const BACKDROP = 255;
+
+// Area-averages an image down to targetWidth × targetHeight, flattening alpha onto the backdrop.
+export const resamplePixels = ({ data, width, height }: PixelData, targetWidth: number, targetHeight: number): PixelData => {
+  if (width <= 0 || height <= 0 || data.length !== width * height * 4) {
+    throw new Error(`Pixel buffer does not match ${width}×${height} RGBA`);
+  }
+
+  const output = new Uint8ClampedArray(targetWidth * targetHeight * 4);
+  const scaleX = width / targetWidth;
+  const scaleY = height / targetHeight;
+
+  for (let y = 0; y < targetHeight; y += 1) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.min(height, Math.max(y0 + 1, Math.floor((y + 1) * scaleY)));
+    for (let x = 0; x < targetWidth; x += 1) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.min(width, Math.max(x0 + 1, Math.floor((x + 1) * scaleX)));
+      let red = 0;
+      let green = 0;
+      let blue = 0;
+      let count = 0;
+
+      for (let sy = y0; sy < y1; sy += 1) {
+        for (let sx = x0; sx < x1; sx += 1) {
+          const offset = (sy * width + sx) * 4;
+          const alpha = data[offset + 3] / 255;
+          red += data[offset] * alpha + BACKDROP * (1 - alpha);
+          green += data[offset + 1] * alpha + BACKDROP * (1 - alpha);
+          blue += data[offset + 2] * alpha + BACKDROP * (1 - alpha);
+          count += 1;
+        }
+      }
+
+      const target = (y * targetWidth + x) * 4;
+      output[target] = Math.round(red / count);
+      output[target + 1] = Math.round(green / count);
+      output[target + 2] = Math.round(blue / count);
+      output[target + 3] = 255;
+    }
+  }
+
+  return { data: output, width: targetWidth, height: targetHeight };
+};
+
+// The CANVAS_SIZE square the extractors expect.
+export const sampleToCanvas = (pixels: PixelData): PixelData => resamplePixels(pixels, CANVAS_SIZE, CANVAS_SIZE);
+
+// Background masking works on the sampled CANVAS_SIZE grid: at that size a 2px ring is a reliable backdrop sample.
+const MASK_BORDER = 2;
+// Mean RGB distance of the ring from its median above which the backdrop is not plain and nothing is masked.
+const MASK_MAX_BORDER_SPREAD = 24;
+// RGB distance within which a pixel still counts as backdrop.
+const MASK_TOLERANCE = 32;
+// Below this foreground share the "product" is probably backdrop-colored itself, so masking is skipped.
+const MASK_MIN_FOREGROUND = 0.05;
+
+export interface BackgroundEstimate {
+  color: [number, number, number];
+  // Mean distance of the border pixels from `color`; low for studio backdrops.
+  spread: number;
+}
+
+export const estimateBackground = ({ data, width, height }: PixelData): BackgroundEstimate => {
+  const border: number[] = [];
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      if (x < MASK_BORDER || y < MASK_BORDER || x >= width - MASK_BORDER || y >= height - MASK_BORDER) {
+        border.push((y * width + x) * 4);
+      }
+    }
+  }
+  const median = (channel: number) => {
+    const values = border.map((offset) => data[offset + channel]).sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)] ?? 0;
+  };
+  const color: [number, number, number] = [median(0), median(1), median(2)];
+  const spread =
+    border.reduce(
+      (sum, offset) =>
+        sum + Math.hypot(data[offset] - color[0], data[offset + 1] - color[1], data[offset + 2] - color[2]),
+      0,
+    ) / Math.max(1, border.length);
+  return { color, spread };
+};
+
+// Marks backdrop pixels with alpha 0, which the feature functions skip. Only pixels connected to the border are
+// masked, so a white sole on a white backdrop survives as long as the shoe's outline encloses it. Images without
+// a plain border are returned unchanged.
+export const maskBackground = (pixels: PixelData): PixelData => {
+  const { data, width, height } = pixels;
+  const { color, spread } = estimateBackground(pixels);
+  if (spread > MASK_MAX_BORDER_SPREAD) {
+    return pixels;
+  }
+
+  const isBackdrop = (index: number) =>
+    Math.hypot(data[index * 4] - color[0], data[index * 4 + 1] - color[1], data[index * 4 + 2] - color[2]) <=
+    MASK_TOLERANCE;
+  const masked = new Uint8Array(width * height);
+  const queue: number[] = [];
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const index = y * width + x;
+      if ((x === 0 || y === 0 || x === width - 1 || y === height - 1) && isBackdrop(index)) {
+        masked[index] = 1;
+        queue.push(index);
+      }
+    }
+  }
+  while (queue.length > 0) {
+    const index = queue.pop() as number;
+    const x = index % width;
+    const neighbours = [
+      x > 0 ? index - 1 : -1,
+      x < width - 1 ? index + 1 : -1,
+      index - width,
+      index + width,
+    ];
+    for (const neighbour of neighbours) {
+      if (neighbour >= 0 && neighbour < width * height && !masked[neighbour] && isBackdrop(neighbour)) {
+        masked[neighbour] = 1;
+        queue.push(neighbour);
+      }
+    }
+  }
+
+  const maskedCount = masked.reduce((sum, value) => sum + value, 0);
+  if (width * height - maskedCount < width * height * MASK_MIN_FOREGROUND) {
+    return pixels;
+  }
+
+  const output = Uint8ClampedArray.from(data);
+  masked.forEach((value, index) => {
+    if (value) output[index * 4 + 3] = 0;
+  });
+  return { data: output, width, height };
+};
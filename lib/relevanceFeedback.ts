@@ -0,0 +1,120 @@
+import { toCsv } from './csv';
+import { getExtractor } from './extractors';
+import type { CatalogEmbedding } from './imageMatching';
+import { projectEmbedding } from './imageMatching';
+import type { QueryVector } from './permalink';
+
+// Rocchio relevance feedback: the query moves toward the centroid of products marked as good matches and away
+// from those marked as bad ones. Judgments are also kept as labelled (query, product) pairs for offline evaluation.
+
+export type Judgment = 'relevant' | 'irrelevant';
+
+export interface RocchioWeights {
+  // Original query, liked centroid and disliked centroid.
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+// The usual SMART weights: "not this" says less about what is wanted than "like this", so negatives count less.
+export const DEFAULT_ROCCHIO: RocchioWeights = { alpha: 1, beta: 0.75, gamma: 0.15 };
+
+const centroid = (vectors: number[][], dimensions: number) => {
+  const sum = new Array<number>(dimensions).fill(0);
+  vectors.forEach((vector) => vector.forEach((value, index) => (sum[index] += value)));
+  return vectors.length === 0 ? sum : sum.map((value) => value / vectors.length);
+};
+
+// Vectors are combined in the projected space (each block unit length, scaled by its weight), so every block moves
+// by the same proportion whatever the magnitudes of the raw features. Scoring takes a cosine per block, so the
+// result is a valid query as-is. Without an original query (text-only searches) the liked products alone define
+// one. Returns null when nothing is liked and there is no original query to start from.
+export const refineQuery = (
+  query: QueryVector | null,
+  catalog: CatalogEmbedding[],
+  judgments: Map<number, Judgment>,
+  weights: RocchioWeights = DEFAULT_ROCCHIO,
+): QueryVector | null => {
+  const extractorKey = query?.extractor ?? catalog[0]?.extractor;
+  if (!extractorKey) {
+    return null;
+  }
+  const extractor = getExtractor(extractorKey);
+  const judged = (judgment: Judgment) =>
+    catalog
+      .filter((entry) => judgments.get(entry.id) === judgment && entry.extractor === extractorKey)
+      .map((entry) => projectEmbedding(entry.embedding, extractor));
+  const liked = judged('relevant');
+  const disliked = judged('irrelevant');
+  if (!query && liked.length === 0) {
+    return null;
+  }
+
+  const original = query ? projectEmbedding(query.embedding, extractor) : new Array<number>(extractor.dimensions).fill(0);
+  const likedCentroid = centroid(liked, extractor.dimensions);
+  const dislikedCentroid = centroid(disliked, extractor.dimensions);
+  // Features are non-negative, so a negative component has no meaning; it is clipped to zero.
+  const embedding = original.map((value, index) =>
+    Math.max(0, weights.alpha * value + weights.beta * likedCentroid[index] - weights.gamma * dislikedCentroid[index]),
+  );
+  if (embedding.every((value) => value === 0)) {
+    return query;
+  }
+  return { extractor: extractorKey, embedding };
+};
+
+export interface LabelledPair {
+  // `${queryId}:${productId}`, so judging a product again replaces the earlier label.
+  id: string;
+  // Search session the judgment was made in.
+  queryId: string;
+  catalog: string;
+  // The query as originally searched, before any refinement; null for text-only searches.
+  query: QueryVector | null;
+  text: string;
+  productId: number;
+  relevant: boolean;
+  // Score the product had when it was judged.
+  similarity: number;
+  // Epoch milliseconds.
+  judgedAt: number;
+}
+
+export const pairId = (queryId: string, productId: number) => `${queryId}:${productId}`;
+
+// One row per judgment; the query vector is left out, it is in the JSON export.
+export const pairsToCsv = (pairs: LabelledPair[]) =>
+  toCsv([
+    ['query_id', 'catalog', 'extractor', 'text', 'product_id', 'label', 'similarity', 'judged_at'],
+    ...pairs.map((pair) => [
+      pair.queryId,
+      pair.catalog,
+      pair.query?.extractor ?? '',
+      pair.text,
+      pair.productId,
+      pair.relevant ? 1 : 0,
+      Math.round(pair.similarity * 100) / 100,
+      new Date(pair.judgedAt).toISOString(),
+    ]),
+  ]);
+
+// Grouped by query, with the relevant and irrelevant product ids of each, ready to use as an evaluation set.
+export const pairsToJson = (pairs: LabelledPair[]) => {
+  const queries = new Map<
+    string,
+    { id: string; catalog: string; query: QueryVector | null; text: string; relevant: number[]; irrelevant: number[] }
+  >();
+  for (const pair of [...pairs].sort((a, b) => a.judgedAt - b.judgedAt)) {
+    const entry = queries.get(pair.queryId) ?? {
+      id: pair.queryId,
+      catalog: pair.catalog,
+      query: pair.query,
+      text: pair.text,
+      relevant: [],
+      irrelevant: [],
+    };
+    (pair.relevant ? entry.relevant : entry.irrelevant).push(pair.productId);
+    queries.set(pair.queryId, entry);
+  }
+  return JSON.stringify({ generatedAt: new Date().toISOString(), queries: [...queries.values()] }, null, 2);
+};
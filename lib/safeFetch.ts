@@ -0,0 +1,216 @@
+import { lookup } from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import type { LookupFunction } from 'node:net';
+import { BlockList, isIP } from 'node:net';
+
+// Server-side fetch for user-supplied URLs. Every hop is resolved through a lookup hook that refuses non-public
+// addresses at connect time, so a hostname cannot pass a pre-check and then rebind to an internal address.
+export interface SafeFetchOptions {
+  headers?: Record<string, string>;
+  maxBytes?: number;
+  maxRedirects?: number;
+  // Covers every hop and the body download together.
+  timeoutMs?: number;
+  // Defaults to isBlockedAddress; tests substitute one that lets a loopback stub server through.
+  isBlocked?: (address: string) => boolean;
+}
+
+export interface SafeFetchResponse {
+  // Final URL after redirects.
+  url: string;
+  status: number;
+  headers: Headers;
+  // Only read for 2xx responses; empty otherwise.
+  body: Uint8Array;
+}
+
+// `status` is the HTTP status a route should answer with.
+export class SafeFetchError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SafeFetchError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+const blockedRanges = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([address, prefix]) => blockedRanges.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  // Unspecified, loopback and the deprecated IPv4-compatible addresses such as ::7f00:1.
+  ['::', 96],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  // 6to4 embeds an IPv4 address (2002:7f00:1:: is 127.0.0.1); relays are rare enough to refuse the whole prefix.
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => blockedRanges.addSubnet(address as string, prefix as number, 'ipv6'));
+
+// Private, loopback, link-local, CGNAT, documentation, multicast and reserved ranges. IPv4-mapped IPv6 addresses
+// are checked as the IPv4 address they wrap.
+export const isBlockedAddress = (address: string) => {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return blockedRanges.check(mapped[1], 'ipv4');
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return blockedRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const guardedLookup =
+  (isBlocked: (address: string) => boolean): LookupFunction =>
+  (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+      const blocked = addresses.find(({ address }) => isBlocked(address));
+      if (blocked || addresses.length === 0) {
+        callback(new SafeFetchError(`${hostname} resolves to a non-public address`, 403), '', 0);
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+
+const assertFetchableUrl = (url: URL, isBlocked: (address: string) => boolean) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new SafeFetchError('Only http and https protocols are allowed', 400);
+  }
+  if (url.username || url.password) {
+    throw new SafeFetchError('URLs with credentials are not allowed', 400);
+  }
+  // IP literals never reach the lookup hook, so they are checked here.
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) !== 0 && isBlocked(host)) {
+    throw new SafeFetchError(`${host} is not a public address`, 403);
+  }
+};
+
+const toHeaders = (raw: http.IncomingHttpHeaders) => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(raw)) {
+    if (Array.isArray(value)) {
+      value.forEach((item) => headers.append(name, item));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+  return headers;
+};
+
+const request = (url: URL, headers: Record<string, string>, signal: AbortSignal, lookup: LookupFunction) =>
+  new Promise<http.IncomingMessage>((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client
+      .get(url, { headers, signal, lookup }, resolve)
+      .on('error', reject);
+  });
+
+const readBody = async (response: http.IncomingMessage, maxBytes: number) => {
+  const declared = Number(response.headers['content-length']);
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    response.destroy();
+    throw new SafeFetchError(`Remote file exceeds the ${maxBytes} byte limit`, 413);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    received += chunk.length;
+    if (received > maxBytes) {
+      response.destroy();
+      throw new SafeFetchError(`Remote file exceeds the ${maxBytes} byte limit`, 413);
+    }
+    chunks.push(chunk);
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+};
+
+export const safeFetch = async (rawUrl: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> => {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const isBlocked = options.isBlocked ?? isBlockedAddress;
+  const lookup = guardedLookup(isBlocked);
+  // Compressed bodies would defeat the byte cap, so ask for the raw representation.
+  const headers = { ...options.headers, 'Accept-Encoding': 'identity' };
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new SafeFetchError('Invalid URL supplied', 400);
+  }
+
+  try {
+    for (let hop = 0; ; hop += 1) {
+      assertFetchableUrl(url, isBlocked);
+      const response = await request(url, headers, signal, lookup);
+      const status = response.statusCode ?? 502;
+      const location = response.headers.location;
+
+      if (REDIRECT_STATUSES.has(status) && location) {
+        response.resume();
+        if (hop >= maxRedirects) {
+          throw new SafeFetchError(`Too many redirects (limit ${maxRedirects})`, 502);
+        }
+        url = new URL(location, url);
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        return { url: url.toString(), status, headers: toHeaders(response.headers), body: new Uint8Array() };
+      }
+
+      const body = await readBody(response, maxBytes);
+      return { url: url.toString(), status, headers: toHeaders(response.headers), body };
+    }
+  } catch (error) {
+    if (error instanceof SafeFetchError) {
+      throw error;
+    }
+    if (signal.aborted) {
+      throw new SafeFetchError('Remote server timed out', 504);
+    }
+    // The lookup hook's rejection arrives wrapped by the socket layer on some Node versions.
+    if (error instanceof Error && error.cause instanceof SafeFetchError) {
+      throw error.cause;
+    }
+    throw new SafeFetchError(`Failed to fetch remote file: ${error instanceof Error ? error.message : 'unknown error'}`, 502);
+  }
+};
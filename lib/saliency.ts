@@ -0,0 +1,117 @@
+import type { PixelData, SourceRegion } from './pixels';
+import { FULL_REGION, estimateBackground, resamplePixels } from './pixels';
+
+// Proposes the part of an image most likely to hold the product, from local heuristics only. Studio shots on a
+// plain backdrop are handled by background subtraction; busy lifestyle backgrounds fall back to edge density.
+
+// Analysis runs on a small copy; the proposal is a coarse box, not a segmentation.
+const WORKING_SIZE = 96;
+// Mean RGB distance of the border pixels from their median below which the backdrop counts as plain.
+const PLAIN_BORDER_SPREAD = 20;
+// RGB distance at which a pixel stops looking like the backdrop.
+const FOREGROUND_DISTANCE = 45;
+const EDGE_DENSITY_RADIUS = 3;
+// Share of the salient mass trimmed from each side, so stray specks do not stretch the box.
+const MASS_TRIM = 0.03;
+const PADDING = 0.06;
+const MIN_COVERAGE = 0.01;
+const MAX_AREA = 0.92;
+
+const distance = (data: ArrayLike<number>, offset: number, color: number[]) =>
+  Math.hypot(data[offset] - color[0], data[offset + 1] - color[1], data[offset + 2] - color[2]);
+
+const backgroundScores = ({ data, width, height }: PixelData, background: number[]) => {
+  const scores = new Float32Array(width * height);
+  for (let i = 0; i < scores.length; i += 1) {
+    scores[i] = distance(data, i * 4, background) >= FOREGROUND_DISTANCE ? 1 : 0;
+  }
+  return scores;
+};
+
+// Sobel magnitude on luma, box-blurred into a local edge density, then kept where it is well above average.
+const edgeScores = ({ data, width, height }: PixelData) => {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i += 1) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  const magnitude = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const at = (dx: number, dy: number) => luma[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      magnitude[y * width + x] = Math.hypot(gx, gy);
+    }
+  }
+
+  const density = new Float32Array(width * height);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      let total = 0;
+      let count = 0;
+      for (let dy = -EDGE_DENSITY_RADIUS; dy <= EDGE_DENSITY_RADIUS; dy += 1) {
+        for (let dx = -EDGE_DENSITY_RADIUS; dx <= EDGE_DENSITY_RADIUS; dx += 1) {
+          const sx = x + dx;
+          const sy = y + dy;
+          if (sx >= 0 && sx < width && sy >= 0 && sy < height) {
+            total += magnitude[sy * width + sx];
+            count += 1;
+          }
+        }
+      }
+      density[y * width + x] = total / count;
+    }
+  }
+
+  const mean = density.reduce((sum, value) => sum + value, 0) / density.length;
+  const deviation = Math.sqrt(density.reduce((sum, value) => sum + (value - mean) ** 2, 0) / density.length);
+  return density.map((value) => (value > mean + 0.5 * deviation ? 1 : 0));
+};
+
+// Index range holding all but MASS_TRIM of the mass at either end.
+const trimmedSpan = (mass: number[]) => {
+  const total = mass.reduce((sum, value) => sum + value, 0);
+  let start = 0;
+  let end = mass.length - 1;
+  for (let seen = 0; start < mass.length && seen + mass[start] <= total * MASS_TRIM; start += 1) seen += mass[start];
+  for (let seen = 0; end > start && seen + mass[end] <= total * MASS_TRIM; end -= 1) seen += mass[end];
+  return [start, end + 1];
+};
+
+export const proposeSalientRegion = (pixels: PixelData): SourceRegion => {
+  const scale = Math.min(1, WORKING_SIZE / Math.max(pixels.width, pixels.height));
+  const small = resamplePixels(
+    pixels,
+    Math.max(3, Math.round(pixels.width * scale)),
+    Math.max(3, Math.round(pixels.height * scale)),
+  );
+  const { width, height } = small;
+
+  const { color: background, spread } = estimateBackground(small);
+  const scores = spread < PLAIN_BORDER_SPREAD ? backgroundScores(small, background) : edgeScores(small);
+
+  const columns = new Array<number>(width).fill(0);
+  const rows = new Array<number>(height).fill(0);
+  let coverage = 0;
+  scores.forEach((score, index) => {
+    columns[index % width] += score;
+    rows[Math.floor(index / width)] += score;
+    coverage += score;
+  });
+  if (coverage < scores.length * MIN_COVERAGE) {
+    return FULL_REGION;
+  }
+
+  const [left, right] = trimmedSpan(columns);
+  const [top, bottom] = trimmedSpan(rows);
+  const x = Math.max(0, left / width - PADDING);
+  const y = Math.max(0, top / height - PADDING);
+  const region = {
+    x,
+    y,
+    width: Math.min(1, right / width + PADDING) - x,
+    height: Math.min(1, bottom / height + PADDING) - y,
+  };
+  return region.width * region.height > MAX_AREA ? FULL_REGION : region;
+};
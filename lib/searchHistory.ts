@@ -0,0 +1,131 @@
+import type { SharedSearch } from './permalink';
+import type { SourceRegion } from './pixels';
+import type { LabelledPair } from './relevanceFeedback';
+
+// Browser-side search history in IndexedDB. Every search the user runs is kept with a small thumbnail, its query
+// vector and the controls it ran with, so it can be reopened (re-ranked from the vector) after a reload. The
+// good/bad match judgments made on results live in a second store and outlast the sessions they came from.
+
+export interface SavedResult {
+  id: number;
+  name: string;
+  similarity: number;
+}
+
+export interface SearchSession extends SharedSearch {
+  id: string;
+  // Epoch milliseconds.
+  createdAt: number;
+  // JPEG data URL of the (cropped) query image; null for text-only searches.
+  thumbnail: string | null;
+  results: SavedResult[];
+}
+
+const DATABASE_NAME = 'visual-product-matcher';
+const SESSIONS = 'search-sessions';
+const PAIRS = 'labelled-pairs';
+// Oldest sessions beyond this are dropped on save; thumbnails keep each entry to a few kilobytes.
+export const MAX_SESSIONS = 50;
+
+const THUMBNAIL_SIZE = 96;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!database) {
+    const request = indexedDB.open(DATABASE_NAME, 2);
+    request.onupgradeneeded = (event) => {
+      if (event.oldVersion < 1) {
+        request.result.createObjectStore(SESSIONS, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+      if (event.oldVersion < 2) {
+        request.result.createObjectStore(PAIRS, { keyPath: 'id' });
+      }
+    };
+    database = promisify(request);
+    // A failed open (private mode, blocked storage) is retried on the next call.
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const transaction = async (store: string, mode: IDBTransactionMode) =>
+  (await openDatabase()).transaction(store, mode).objectStore(store);
+
+// Newest first. Sessions saved before score calibration have no `calibration`; their threshold is on raw scores.
+export const listSessions = async (): Promise<SearchSession[]> => {
+  const store = await transaction(SESSIONS, 'readonly');
+  const sessions = await promisify(
+    store.index('createdAt').getAll() as IDBRequest<(Omit<SearchSession, 'calibration'> & Partial<SearchSession>)[]>,
+  );
+  return sessions.reverse().map((session) => ({ ...session, calibration: session.calibration ?? 'none' }));
+};
+
+export const saveSession = async (session: SearchSession) => {
+  const store = await transaction(SESSIONS, 'readwrite');
+  await promisify(store.put(session));
+  const keys = await promisify(store.index('createdAt').getAllKeys());
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_SESSIONS)).map((key) => promisify(store.delete(key))));
+};
+
+export const deleteSession = async (id: string) => {
+  await promisify((await transaction(SESSIONS, 'readwrite')).delete(id));
+};
+
+export const clearSessions = async () => {
+  await promisify((await transaction(SESSIONS, 'readwrite')).clear());
+};
+
+export const listLabelledPairs = async (): Promise<LabelledPair[]> =>
+  promisify((await transaction(PAIRS, 'readonly')).getAll() as IDBRequest<LabelledPair[]>);
+
+export const saveLabelledPair = async (pair: LabelledPair) => {
+  await promisify((await transaction(PAIRS, 'readwrite')).put(pair));
+};
+
+export const deleteLabelledPair = async (id: string) => {
+  await promisify((await transaction(PAIRS, 'readwrite')).delete(id));
+};
+
+export const clearLabelledPairs = async () => {
+  await promisify((await transaction(PAIRS, 'readwrite')).clear());
+};
+
+// The part of the image that was matched, scaled so its longer side is THUMBNAIL_SIZE.
+export const createThumbnail = (image: HTMLImageElement, region: SourceRegion | null) => {
+  const { naturalWidth, naturalHeight } = image;
+  const crop = region
+    ? {
+        x: region.x * naturalWidth,
+        y: region.y * naturalHeight,
+        width: region.width * naturalWidth,
+        height: region.height * naturalHeight,
+      }
+    : { x: 0, y: 0, width: naturalWidth, height: naturalHeight };
+  const scale = THUMBNAIL_SIZE / Math.max(crop.width, crop.height, 1);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(crop.width * scale));
+  canvas.height = Math.max(1, Math.round(crop.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return null;
+  }
+  context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  try {
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch {
+    // A cross-origin image without CORS taints the canvas; the session is still saved without a thumbnail.
+    return null;
+  }
+};
@@ -0,0 +1,155 @@
+import type { Product } from './catalog';
+import type { SimilarityScore } from './imageMatching';
+
+export type FusionMode = 'weighted' | 'rrf';
+
+export interface FusionOptions {
+  mode?: FusionMode;
+  // Share of the final score given to text relevance, 0–1.
+  textWeight?: number;
+  // RRF damping constant; 60 is the value from the original paper.
+  rrfK?: number;
+}
+
+// similarity = visual + text, so the UI can show how much each side contributed.
+export interface HybridScore extends SimilarityScore {
+  visual: number;
+  text: number;
+}
+
+export interface TextIndex {
+  documents: Map<number, Map<string, number>>;
+  lengths: Map<number, number>;
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+type TextField = 'name' | 'category' | 'tags' | 'description';
+
+// Term frequencies are multiplied per field, so a tag or name hit outranks a passing mention in the description.
+const FIELD_WEIGHTS: Record<TextField, number> = {
+  name: 2,
+  category: 1.5,
+  tags: 2,
+  description: 1,
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'for', 'from', 'in', 'is', 'it', 'like', 'me', 'of', 'on', 'or', 'show', 'some', 'the',
+  'this', 'to', 'with',
+]);
+
+// Lowercase word tokens with a light plural strip ("shoes" → "shoe", "accessories" → "accessory").
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map((token) => {
+      if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+      if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+      return token;
+    });
+
+const fieldText = (product: Product, field: TextField) =>
+  field === 'tags' ? product.tags.join(' ') : product[field];
+
+export const buildTextIndex = (products: Product[]): TextIndex => {
+  const documents = new Map<number, Map<string, number>>();
+  const lengths = new Map<number, number>();
+  const documentFrequency = new Map<string, number>();
+
+  for (const product of products) {
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as TextField[]) {
+      for (const token of tokenize(fieldText(product, field))) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + FIELD_WEIGHTS[field]);
+        length += FIELD_WEIGHTS[field];
+      }
+    }
+    documents.set(product.id, frequencies);
+    lengths.set(product.id, length);
+    for (const token of frequencies.keys()) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+
+  const totalLength = [...lengths.values()].reduce((sum, length) => sum + length, 0);
+  return { documents, lengths, documentFrequency, averageLength: documents.size === 0 ? 0 : totalLength / documents.size };
+};
+
+// Raw BM25 scores for every product with at least one matching term.
+export const scoreText = (index: TextIndex, query: string): Map<number, number> => {
+  const terms = [...new Set(tokenize(query))];
+  const scores = new Map<number, number>();
+  const documentCount = index.documents.size;
+
+  for (const term of terms) {
+    const frequency = index.documentFrequency.get(term);
+    if (!frequency) {
+      continue;
+    }
+    const idf = Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5));
+    for (const [id, frequencies] of index.documents) {
+      const termFrequency = frequencies.get(term);
+      if (!termFrequency) {
+        continue;
+      }
+      const lengthRatio = (index.lengths.get(id) ?? 0) / (index.averageLength || 1);
+      const score = (idf * termFrequency * (BM25_K1 + 1)) / (termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+      scores.set(id, (scores.get(id) ?? 0) + score);
+    }
+  }
+
+  return scores;
+};
+
+const rankOf = (entries: [number, number][]) =>
+  new Map(
+    [...entries]
+      .sort((a, b) => b[1] - a[1])
+      .map(([id], index) => [id, index + 1]),
+  );
+
+// Combines visual similarity (0–100) with BM25 relevance. Both modes report scores on a 0–100 scale so the
+// similarity threshold keeps working; `visual` and `text` hold each side's share of that total.
+export const fuseScores = (
+  visualScores: SimilarityScore[],
+  textScores: Map<number, number>,
+  options: FusionOptions = {},
+): HybridScore[] => {
+  const textWeight = Math.min(1, Math.max(0, options.textWeight ?? 0.35));
+  const visualWeight = 1 - textWeight;
+  const visualById = new Map(visualScores.map((score) => [score.id, score.similarity]));
+  const ids = new Set([...visualById.keys(), ...textScores.keys()]);
+  let fused: HybridScore[];
+
+  if ((options.mode ?? 'weighted') === 'rrf') {
+    const k = options.rrfK ?? 60;
+    const visualRanks = rankOf([...visualById]);
+    const textRanks = rankOf([...textScores]);
+    // The best achievable fused score is 1 / (k + 1); scale it to 100.
+    const scale = (k + 1) * 100;
+    fused = [...ids].map((id) => {
+      const visualRank = visualRanks.get(id);
+      const textRank = textRanks.get(id);
+      const visual = visualRank ? (visualWeight / (k + visualRank)) * scale : 0;
+      const text = textRank ? (textWeight / (k + textRank)) * scale : 0;
+      return { id, visual, text, similarity: visual + text };
+    });
+  } else {
+    // Reduced rather than spread, since a large catalog can exceed the engine's argument limit.
+    const maxText = [...textScores.values()].reduce((max, score) => Math.max(max, score), 0);
+    fused = [...ids].map((id) => {
+      const visual = visualWeight * (visualById.get(id) ?? 0);
+      const text = maxText === 0 ? 0 : textWeight * ((textScores.get(id) ?? 0) / maxText) * 100;
+      return { id, visual, text, similarity: visual + text };
+    });
+  }
+
+  return fused.sort((a, b) => b.similarity - a.similarity);
+};
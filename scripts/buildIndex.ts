@@ -0,0 +1,168 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AnnIndexFile } from '../lib/annIndex';
+import { buildIvfIndex, createIvfSearcher } from '../lib/annIndex';
+import { parseCatalog } from '../lib/catalog';
+import { extractorId } from '../lib/extractors';
+import type { CatalogEmbedding } from '../lib/imageMatching';
+import { rankCatalog, selectCatalogExtractor, toCatalogEmbeddings } from '../lib/imageMatching';
+
+interface Options {
+  catalogPath: string;
+  indexPath: string | null;
+  lists?: number;
+  probes?: number;
+  topK: number;
+  queries: number;
+  minRecall: number | null;
+  recallOnly: boolean;
+}
+
+const USAGE = `Usage: npm run catalog:index -- [options]
+
+Builds the IVF index next to the catalog and reports recall@K against the brute-force ranker.
+
+Options:
+  --catalog <file>     Catalog JSON (default: public/products.json)
+  --out <file>         Index file (default: <catalog>.index.json alongside the catalog)
+  --lists <n>          Number of k-means lists (default: √catalog size)
+  --probes <n>         Lists scanned per query by default (default: 40% of lists)
+  --top-k <n>          K used for the recall report (default: 10)
+  --queries <n>        Synthetic noisy queries per catalog entry (default: 3)
+  --min-recall <0-1>   Exit non-zero if recall at the default probes falls below this
+  --recall-only        Evaluate the existing index file without rewriting it`;
+
+const parseArgs = (argv: string[]): Options => {
+  const options: Options = {
+    catalogPath: path.join('public', 'products.json'),
+    indexPath: null,
+    topK: 10,
+    queries: 3,
+    minRecall: null,
+    recallOnly: false,
+  };
+  const nextNumber = (index: number, flag: string) => {
+    const value = Number(argv[index]);
+    if (!Number.isFinite(value)) {
+      throw new Error(`${flag} expects a number\n\n${USAGE}`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--catalog':
+        options.catalogPath = argv[++i] ?? options.catalogPath;
+        break;
+      case '--out':
+        options.indexPath = argv[++i] ?? null;
+        break;
+      case '--lists':
+        options.lists = nextNumber(++i, arg);
+        break;
+      case '--probes':
+        options.probes = nextNumber(++i, arg);
+        break;
+      case '--top-k':
+        options.topK = nextNumber(++i, arg);
+        break;
+      case '--queries':
+        options.queries = nextNumber(++i, arg);
+        break;
+      case '--min-recall':
+        options.minRecall = nextNumber(++i, arg);
+        break;
+      case '--recall-only':
+        options.recallOnly = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unknown argument "${arg}"\n\n${USAGE}`);
+    }
+  }
+
+  return options;
+};
+
+const defaultIndexPath = (catalogPath: string) => catalogPath.replace(/\.json$/, '') + '.index.json';
+
+// Each catalog vector plus jittered copies of it, so queries land both on and between catalog points.
+const buildQueries = (catalog: CatalogEmbedding[], perEntry: number) => {
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  return catalog.flatMap((entry) => [
+    entry.embedding,
+    ...Array.from({ length: perEntry }, () => entry.embedding.map((value) => Math.max(0, value + (random() - 0.5) * 0.2))),
+  ]);
+};
+
+const measureRecall = (index: AnnIndexFile, catalog: CatalogEmbedding[], queries: number[][], topK: number) => {
+  const searcher = createIvfSearcher(index, catalog);
+  const truth = queries.map((query) =>
+    new Set(rankCatalog({ extractor: index.extractor, embedding: query }, catalog, topK).map((score) => score.id)),
+  );
+
+  return Array.from({ length: index.centroids.length }, (_, offset) => {
+    const probes = offset + 1;
+    const started = performance.now();
+    let hits = 0;
+    let expected = 0;
+    queries.forEach((query, queryIndex) => {
+      const found = searcher.search(query, topK, { probes });
+      hits += found.filter((score) => truth[queryIndex].has(score.id)).length;
+      expected += truth[queryIndex].size;
+    });
+    return { probes, recall: expected === 0 ? 1 : hits / expected, msPerQuery: (performance.now() - started) / queries.length };
+  });
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const indexPath = options.indexPath ?? defaultIndexPath(options.catalogPath);
+  const products = parseCatalog(JSON.parse(await readFile(options.catalogPath, 'utf8')));
+  const extractor = selectCatalogExtractor(products.map((product) => product.embeddings));
+  if (!extractor) {
+    throw new Error('No registered extractor has a vector for every product');
+  }
+  const catalog = toCatalogEmbeddings(products, extractorId(extractor));
+
+  let index: AnnIndexFile;
+  if (options.recallOnly) {
+    index = JSON.parse(await readFile(indexPath, 'utf8')) as AnnIndexFile;
+  } else {
+    index = buildIvfIndex(catalog, { lists: options.lists, probes: options.probes });
+    await writeFile(indexPath, `${JSON.stringify(index)}\n`);
+    console.log(
+      `Wrote ${indexPath}: ${index.lists.length} lists over ${catalog.length} products (${index.extractor}), default probes ${index.probes}`,
+    );
+  }
+
+  const queries = buildQueries(catalog, options.queries);
+  const report = measureRecall(index, catalog, queries, options.topK);
+  console.log(`\nrecall@${options.topK} vs brute force over ${queries.length} queries`);
+  console.log('probes  recall   ms/query');
+  for (const row of report) {
+    const marker = row.probes === index.probes ? '  ← default' : '';
+    console.log(`${String(row.probes).padStart(6)}  ${row.recall.toFixed(3).padStart(6)}  ${row.msPerQuery.toFixed(3).padStart(9)}${marker}`);
+  }
+
+  const atDefault = report.find((row) => row.probes === index.probes);
+  if (options.minRecall !== null && atDefault && atDefault.recall < options.minRecall) {
+    console.error(`Recall ${atDefault.recall.toFixed(3)} at ${index.probes} probes is below ${options.minRecall}`);
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
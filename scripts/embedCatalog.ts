@@ -0,0 +1,174 @@
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { samplePixelsFromBytes } from '../lib/decodeImage';
+import type { Extractor } from '../lib/extractors';
+import {
+  DEFAULT_EXTRACTOR_ID,
+  colorStatsExtractor,
+  extractorId,
+  getExtractor,
+  legacyColorStatsExtractor,
+  listExtractors,
+} from '../lib/extractors';
+import { formatCatalog, parseCatalog, roundEmbedding } from '../lib/catalog';
+import { fetchRemoteImage, findLocalImage } from './productImages';
+
+interface Options {
+  catalogPath: string;
+  extractorId: string;
+  imagesDir: string | null;
+  fetchRemote: boolean;
+  staleOnly: boolean;
+  check: boolean;
+  dryRun: boolean;
+}
+
+const USAGE = `Usage: npm run catalog:embed -- [options]
+
+Options:
+  --catalog <file>   Catalog JSON to update (default: public/products.json)
+  --extractor <id>   Extractor to embed with (default: ${DEFAULT_EXTRACTOR_ID}); "all" computes every registered
+                     extractor, plain and masked, from a single read of each image
+  --images <dir>     Directory of product images named <id>.png / <id>.jpg
+  --fetch            Download the product "image" URL when no local file exists
+  --stale-only       Only re-embed entries missing a vector from the chosen extractor(s)
+  --check            Report entries missing those vectors and exit non-zero if any are found
+  --dry-run          Compute embeddings without writing the catalog`;
+
+const parseArgs = (argv: string[]): Options => {
+  const options: Options = {
+    catalogPath: path.join('public', 'products.json'),
+    extractorId: DEFAULT_EXTRACTOR_ID,
+    imagesDir: null,
+    fetchRemote: false,
+    staleOnly: false,
+    check: false,
+    dryRun: false,
+  };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--catalog':
+        options.catalogPath = argv[++i] ?? options.catalogPath;
+        break;
+      case '--extractor':
+        options.extractorId = argv[++i] ?? options.extractorId;
+        break;
+      case '--images':
+        options.imagesDir = argv[++i] ?? null;
+        break;
+      case '--fetch':
+        options.fetchRemote = true;
+        break;
+      case '--stale-only':
+        options.staleOnly = true;
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unknown argument "${arg}"\n\n${USAGE}`);
+    }
+  }
+
+  return options;
+};
+
+const LEGACY_ID = extractorId(legacyColorStatsExtractor);
+
+// The hand-typed legacy vectors cannot be computed, so "all" means every other registered extractor.
+const selectExtractors = (id: string): Extractor[] =>
+  id === 'all'
+    ? listExtractors().filter((extractor) => extractorId(extractor) !== LEGACY_ID)
+    : [getExtractor(id)];
+
+// Older versions of the same extractor are superseded, and color-stats also supersedes the hand-typed legacy vectors;
+// other extractors' vectors are kept.
+const supersedes = (extractor: Extractor, key: string) =>
+  key.startsWith(`${extractor.name}@`) || (extractor.name === colorStatsExtractor.name && key === LEGACY_ID);
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const catalog = parseCatalog(JSON.parse(await readFile(options.catalogPath, 'utf8')));
+  const extractors = selectExtractors(options.extractorId);
+  const ids = extractors.map(extractorId);
+  const missing = (entry: (typeof catalog)[number]) =>
+    extractors.filter((extractor) => entry.embeddings[extractorId(extractor)]?.length !== extractor.dimensions);
+  const stale = catalog.filter((entry) => missing(entry).length > 0);
+
+  if (options.check) {
+    if (stale.length === 0) {
+      console.log(`All ${catalog.length} entries are embedded with ${ids.join(', ')}.`);
+      return;
+    }
+    for (const entry of stale) {
+      const present = Object.keys(entry.embeddings);
+      const expected = missing(entry).map(extractorId).join(', ');
+      console.log(`#${entry.id}: has ${present.length > 0 ? present.join(', ') : 'no embeddings'} (missing ${expected})`);
+    }
+    console.error(`${stale.length} of ${catalog.length} entries are stale.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!options.imagesDir && !options.fetchRemote) {
+    throw new Error(`Provide --images <dir>, --fetch, or both.\n\n${USAGE}`);
+  }
+
+  const localFiles = options.imagesDir ? new Set(await readdir(options.imagesDir)) : new Set<string>();
+  const targets = options.staleOnly ? stale : catalog;
+  let updated = 0;
+  const failures: string[] = [];
+
+  for (const entry of targets) {
+    try {
+      let buffer = options.imagesDir ? await findLocalImage(options.imagesDir, entry.id, localFiles) : null;
+      if (!buffer && options.fetchRemote) {
+        buffer = await fetchRemoteImage(entry.image);
+      }
+      if (!buffer) {
+        failures.push(`#${entry.id}: no image file found`);
+        continue;
+      }
+
+      const pixels = samplePixelsFromBytes(buffer);
+      const vectors = extractors.map(
+        (extractor) => [extractorId(extractor), roundEmbedding(extractor.extract(pixels))] as const,
+      );
+      const retained = Object.entries(entry.embeddings).filter(
+        ([key]) => !extractors.some((extractor) => supersedes(extractor, key)),
+      );
+      entry.embeddings = { ...Object.fromEntries(retained), ...Object.fromEntries(vectors) };
+      updated += 1;
+      console.log(`#${entry.id} ${entry.name} → ${vectors.map(([key, vector]) => `${key} (${vector.length})`).join(', ')}`);
+    } catch (error) {
+      failures.push(`#${entry.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.warn(`Skipped ${failures.length} entries:\n  ${failures.join('\n  ')}`);
+  }
+
+  if (options.dryRun) {
+    console.log(`Dry run: ${updated} embeddings computed, catalog left untouched.`);
+    return;
+  }
+
+  await writeFile(options.catalogPath, `${formatCatalog(catalog)}\n`);
+  console.log(`Updated ${updated} of ${catalog.length} entries in ${options.catalogPath} (${ids.join(', ')}).`);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,290 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseCatalog } from '../lib/catalog';
+import { nodeDecoder } from '../lib/decodeImage';
+import type { EvaluationQuery, EvaluationReport, MetricChange, MetricSummary, QueryOutcome } from '../lib/evaluation';
+import { DEFAULT_KS, compareReports, parseEvaluationSet, scoreQuery, summarizeOutcomes } from '../lib/evaluation';
+import { extractorId, getExtractor } from '../lib/extractors';
+import { rankCatalog, selectCatalogExtractor, toCatalogEmbeddings } from '../lib/imageMatching';
+import { cropPixels, sampleToCanvas } from '../lib/pixels';
+import { buildTextIndex, fuseScores, scoreText } from '../lib/textSearch';
+import { fetchRemoteImage } from './productImages';
+
+interface Options {
+  setPath: string | null;
+  catalogPath: string;
+  extractorId: string | null;
+  ks: number[];
+  textWeight: number;
+  baselinePath: string | null;
+  updateBaseline: boolean;
+  tolerance: number;
+  json: boolean;
+  check: boolean;
+}
+
+const USAGE = `Usage: npm run eval -- --set <file> [options]
+
+Runs every query of a labelled set through the matcher (exact ranking, no ANN index) and reports recall@K, MRR
+and nDCG@K overall and per category, optionally against a stored baseline run.
+
+Options:
+  --set <file>             Labelled query set (see README, or a labelled pair export from the app)
+  --catalog <file>         Catalog JSON (default: public/products.json)
+  --extractor <id>         Extractor to evaluate (default: newest one the whole catalog is embedded with)
+  --k <list>               Comma-separated cut-offs (default: ${DEFAULT_KS.join(',')})
+  --text-weight <0-1>      Text share for queries with an image and text (default: 0.35)
+  --baseline <file>        Compare with this earlier report
+  --update-baseline        Write this run to the --baseline file instead of only comparing
+  --tolerance <0-1>        Drop that counts as a regression (default: 0.005)
+  --json                   Print the full report as JSON
+  --check                  Exit non-zero if any metric regressed against the baseline`;
+
+const parseArgs = (argv: string[]): Options => {
+  const options: Options = {
+    setPath: null,
+    catalogPath: path.join('public', 'products.json'),
+    extractorId: null,
+    ks: DEFAULT_KS,
+    textWeight: 0.35,
+    baselinePath: null,
+    updateBaseline: false,
+    tolerance: 0.005,
+    json: false,
+    check: false,
+  };
+
+  const readFraction = (index: number, flag: string) => {
+    const value = Number(argv[index]);
+    if (!Number.isFinite(value) || value < 0 || value > 1) {
+      throw new Error(`${flag} expects a number between 0 and 1\n\n${USAGE}`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--set':
+        options.setPath = argv[++i] ?? null;
+        break;
+      case '--catalog':
+        options.catalogPath = argv[++i] ?? options.catalogPath;
+        break;
+      case '--extractor':
+        options.extractorId = argv[++i] ?? null;
+        break;
+      case '--k': {
+        const ks = (argv[++i] ?? '').split(',').map(Number);
+        if (ks.length === 0 || !ks.every((k) => Number.isInteger(k) && k > 0)) {
+          throw new Error(`--k expects positive integers such as 1,5,10\n\n${USAGE}`);
+        }
+        options.ks = [...new Set(ks)].sort((a, b) => a - b);
+        break;
+      }
+      case '--text-weight':
+        options.textWeight = readFraction(++i, arg);
+        break;
+      case '--baseline':
+        options.baselinePath = argv[++i] ?? null;
+        break;
+      case '--update-baseline':
+        options.updateBaseline = true;
+        break;
+      case '--tolerance':
+        options.tolerance = readFraction(++i, arg);
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unknown argument "${arg}"\n\n${USAGE}`);
+    }
+  }
+
+  if (!options.setPath) {
+    throw new Error(`--set is required\n\n${USAGE}`);
+  }
+  if (options.updateBaseline && !options.baselinePath) {
+    throw new Error(`--update-baseline needs --baseline <file>\n\n${USAGE}`);
+  }
+  return options;
+};
+
+// Same pipeline as the browser: crop, then the shared 48×48 sampler, then the extractor.
+const embedImage = async (query: EvaluationQuery, setDir: string, extractorKey: string) => {
+  const source = query.image as string;
+  const bytes = /^https?:\/\//i.test(source)
+    ? await fetchRemoteImage(source)
+    : await readFile(path.resolve(setDir, source));
+  const pixels = nodeDecoder.decode(bytes);
+  return getExtractor(extractorKey).extract(sampleToCanvas(query.region ? cropPixels(pixels, query.region) : pixels));
+};
+
+const formatNumber = (value: number | null) => (value === null ? '   –  ' : value.toFixed(3));
+
+const metricTable = (rows: [string, number | string, MetricSummary][], metrics: string[]) => {
+  const width = Math.max(8, ...rows.map(([label]) => label.length));
+  const header = `${''.padEnd(width)}  queries  ${metrics.map((metric) => metric.padStart(10)).join('')}`;
+  const lines = rows.map(
+    ([label, queries, summary]) =>
+      `${label.padEnd(width)}  ${String(queries).padStart(7)}  ${metrics
+        .map((metric) => formatNumber(summary[metric] ?? null).padStart(10))
+        .join('')}`,
+  );
+  return [header, ...lines].join('\n');
+};
+
+const describeChange = (change: MetricChange) =>
+  `  ${change.scope.padEnd(16)} ${change.metric.padEnd(10)} ${formatNumber(change.baseline)} → ${formatNumber(change.current)}` +
+  `  (${change.delta >= 0 ? '+' : ''}${change.delta.toFixed(3)})${change.regression ? '  REGRESSION' : ''}`;
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const setPath = options.setPath as string;
+  const set = parseEvaluationSet(JSON.parse(await readFile(setPath, 'utf8')));
+  const catalog = parseCatalog(JSON.parse(await readFile(options.catalogPath, 'utf8')));
+  const extractor = options.extractorId
+    ? getExtractor(options.extractorId)
+    : selectCatalogExtractor(catalog.map((entry) => entry.embeddings));
+  if (!extractor) {
+    throw new Error(`${options.catalogPath}: no registered extractor has a vector for every product`);
+  }
+  const id = extractorId(extractor);
+  const missing = catalog.filter((entry) => entry.embeddings[id]?.length !== extractor.dimensions);
+  if (missing.length > 0) {
+    throw new Error(`${missing.length} catalog entries have no ${id} vector; run npm run catalog:embed first`);
+  }
+
+  const catalogEmbeddings = toCatalogEmbeddings(catalog, id);
+  const textIndex = buildTextIndex(catalog);
+  const categories = new Map(catalog.map((entry) => [entry.id, entry.category]));
+  const setDir = path.dirname(setPath);
+  const outcomes: QueryOutcome[] = [];
+  const skipped: EvaluationReport['skipped'] = [];
+
+  for (const query of set.queries) {
+    const unknown = query.relevant.filter((productId) => !categories.has(productId));
+    if (unknown.length > 0) {
+      console.warn(`${query.id}: relevant ids ${unknown.join(', ')} are not in the catalog and can never be found`);
+    }
+
+    let embedding: number[] | null = null;
+    try {
+      if (query.image) {
+        embedding = await embedImage(query, setDir, id);
+      } else if (query.query) {
+        if (query.query.extractor !== id) {
+          throw new Error(`vector is from ${query.query.extractor}, evaluating ${id}`);
+        }
+        embedding = query.query.embedding;
+      }
+    } catch (error) {
+      skipped.push({ id: query.id, reason: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    const visual = embedding ? rankCatalog({ extractor: id, embedding }, catalogEmbeddings, catalogEmbeddings.length) : [];
+    const ranked = query.text
+      ? fuseScores(visual, scoreText(textIndex, query.text), { textWeight: embedding ? options.textWeight : 1 })
+      : visual;
+    const rankedIds = ranked.map((score) => score.id);
+    const firstRelevant = rankedIds.findIndex((productId) => query.relevant.includes(productId));
+    outcomes.push({
+      id: query.id,
+      category: query.category ?? categories.get(query.relevant[0]) ?? 'Uncategorised',
+      relevant: query.relevant,
+      firstRelevantRank: firstRelevant === -1 ? null : firstRelevant + 1,
+      top: rankedIds.slice(0, Math.max(...options.ks)),
+      metrics: scoreQuery(rankedIds, query.relevant, options.ks),
+    });
+  }
+
+  if (outcomes.length === 0) {
+    throw new Error(`No query could be run:\n  ${skipped.map((entry) => `${entry.id}: ${entry.reason}`).join('\n  ')}`);
+  }
+
+  const report: EvaluationReport = {
+    generatedAt: new Date().toISOString(),
+    set: setPath,
+    catalog: options.catalogPath,
+    extractor: id,
+    ks: options.ks,
+    ...summarizeOutcomes(outcomes),
+    queries: outcomes,
+    skipped,
+  };
+
+  let baseline: EvaluationReport | null = null;
+  if (options.baselinePath && !options.updateBaseline) {
+    baseline = JSON.parse(await readFile(options.baselinePath, 'utf8')) as EvaluationReport;
+  }
+  const changes = baseline ? compareReports(report, baseline, options.tolerance) : [];
+  const regressions = changes.filter((change) => change.regression);
+
+  if (options.json) {
+    console.log(JSON.stringify(baseline ? { ...report, changes } : report, null, 2));
+  } else {
+    const metrics = Object.keys(report.overall);
+    console.log(`${setPath} · ${options.catalogPath} · ${id} · ${outcomes.length} queries\n`);
+    console.log(
+      metricTable(
+        [
+          ['overall', outcomes.length, report.overall],
+          ...Object.entries(report.categories).map(
+            ([category, summary]): [string, number, MetricSummary] => [category, summary.queries, summary.metrics],
+          ),
+        ],
+        metrics,
+      ),
+    );
+    if (skipped.length > 0) {
+      console.warn(`\nSkipped ${skipped.length} queries:\n  ${skipped.map((entry) => `${entry.id}: ${entry.reason}`).join('\n  ')}`);
+    }
+    if (baseline) {
+      if (baseline.extractor !== id || baseline.ks.join(',') !== options.ks.join(',')) {
+        console.warn(`\nNote: the baseline was run with ${baseline.extractor} at K=${baseline.ks.join(',')}.`);
+      }
+      const moved = changes.filter((change) => Math.abs(change.delta) >= 0.0005 || change.regression);
+      console.log(`\nCompared with ${options.baselinePath} (${baseline.generatedAt}):`);
+      console.log(moved.length === 0 ? '  No metric changed.' : moved.map(describeChange).join('\n'));
+      const baselineRanks = new Map(baseline.queries.map((outcome) => [outcome.id, outcome.firstRelevantRank]));
+      const worse = outcomes.filter((outcome) => {
+        const before = baselineRanks.get(outcome.id);
+        return before !== undefined && before !== null && (outcome.firstRelevantRank ?? Infinity) > before;
+      });
+      if (worse.length > 0) {
+        console.log('\nQueries whose first relevant product moved down:');
+        console.log(
+          worse
+            .map((outcome) => `  ${outcome.id}: #${baselineRanks.get(outcome.id)} → ${outcome.firstRelevantRank ? `#${outcome.firstRelevantRank}` : 'not found'}`)
+            .join('\n'),
+        );
+      }
+      if (regressions.length > 0) {
+        console.log(`\n${regressions.length} metric(s) dropped by more than ${options.tolerance}.`);
+      }
+    }
+  }
+
+  if (options.updateBaseline && options.baselinePath) {
+    await writeFile(options.baselinePath, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nWrote baseline ${options.baselinePath}.`);
+  }
+  if (options.check && regressions.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
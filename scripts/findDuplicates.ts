@@ -0,0 +1,165 @@
+import { readFile, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import { parseCatalog } from '../lib/catalog';
+import { samplePixelsFromBytes } from '../lib/decodeImage';
+import type { DuplicatePair } from '../lib/duplicates';
+import { DEFAULT_DUPLICATE_OPTIONS, findDuplicates, perceptualHash } from '../lib/duplicates';
+import { extractorId } from '../lib/extractors';
+import { selectCatalogExtractor, toCatalogEmbeddings } from '../lib/imageMatching';
+import { fetchRemoteImage, findLocalImage } from './productImages';
+
+interface Options {
+  catalogPath: string;
+  imagesDir: string | null;
+  fetchRemote: boolean;
+  minSimilarity: number;
+  maxHashDistance: number;
+  json: boolean;
+  check: boolean;
+}
+
+const USAGE = `Usage: npm run catalog:dedupe -- [options]
+
+Reports products that share an image URL, have near-identical vectors or, when images are available, images
+whose perceptual hashes differ by only a few bits.
+
+Options:
+  --catalog <file>            Catalog JSON (default: public/products.json)
+  --images <dir>              Hash product images named <id>.png / <id>.jpg from this directory
+  --fetch                     Download the product "image" URL when no local file exists
+  --min-similarity <0-100>    Vector similarity that counts as a duplicate (default: ${DEFAULT_DUPLICATE_OPTIONS.minSimilarity})
+  --max-hash-distance <bits>  Hash distance that counts as a duplicate (default: ${DEFAULT_DUPLICATE_OPTIONS.maxHashDistance})
+  --json                      Print the clusters as JSON
+  --check                     Exit non-zero if any duplicates are found`;
+
+const parseArgs = (argv: string[]): Options => {
+  const options: Options = {
+    catalogPath: path.join('public', 'products.json'),
+    imagesDir: null,
+    fetchRemote: false,
+    ...DEFAULT_DUPLICATE_OPTIONS,
+    json: false,
+    check: false,
+  };
+
+  const readNumber = (index: number, flag: string, min: number, max: number) => {
+    const value = Number(argv[index]);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new Error(`${flag} expects a number between ${min} and ${max}\n\n${USAGE}`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--catalog':
+        options.catalogPath = argv[++i] ?? options.catalogPath;
+        break;
+      case '--images':
+        options.imagesDir = argv[++i] ?? null;
+        break;
+      case '--fetch':
+        options.fetchRemote = true;
+        break;
+      case '--min-similarity':
+        options.minSimilarity = readNumber(++i, arg, 0, 100);
+        break;
+      case '--max-hash-distance':
+        options.maxHashDistance = readNumber(++i, arg, 0, 64);
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unknown argument "${arg}"\n\n${USAGE}`);
+    }
+  }
+
+  return options;
+};
+
+const describePair = (pair: DuplicatePair) =>
+  pair.reasons
+    .map((reason) => {
+      if (reason === 'embedding') return `vectors ${pair.similarity.toFixed(2)}% alike`;
+      if (reason === 'image-hash') return `image hash ${pair.hashDistance} bit(s) apart`;
+      return 'same image';
+    })
+    .join(', ');
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const catalog = parseCatalog(JSON.parse(await readFile(options.catalogPath, 'utf8')));
+  const extractor = selectCatalogExtractor(catalog.map((entry) => entry.embeddings));
+  if (!extractor) {
+    throw new Error(`${options.catalogPath}: no registered extractor has a vector for every product`);
+  }
+  const id = extractorId(extractor);
+
+  const hashes = new Map<number, string>();
+  const failures: string[] = [];
+  if (options.imagesDir || options.fetchRemote) {
+    const localFiles = options.imagesDir ? new Set(await readdir(options.imagesDir)) : new Set<string>();
+    for (const entry of catalog) {
+      try {
+        let buffer = options.imagesDir ? await findLocalImage(options.imagesDir, entry.id, localFiles) : null;
+        if (!buffer && options.fetchRemote) {
+          buffer = await fetchRemoteImage(entry.image);
+        }
+        if (buffer) {
+          hashes.set(entry.id, perceptualHash(samplePixelsFromBytes(buffer)));
+        } else {
+          failures.push(`#${entry.id}: no image file found`);
+        }
+      } catch (error) {
+        failures.push(`#${entry.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  const clusters = findDuplicates(
+    toCatalogEmbeddings(catalog, id).map((entry, index) => ({
+      ...entry,
+      image: catalog[index].image,
+      hash: hashes.get(entry.id),
+    })),
+    options,
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify({ catalog: options.catalogPath, extractor: id, hashed: hashes.size, clusters }, null, 2));
+  } else {
+    if (failures.length > 0) {
+      console.warn(`Compared ${failures.length} entries without an image hash:\n  ${failures.join('\n  ')}`);
+    }
+    const names = new Map(catalog.map((entry) => [entry.id, entry.name]));
+    console.log(
+      `${options.catalogPath}: ${clusters.length} suspected duplicate group(s) among ${catalog.length} products ` +
+        `(${id}, ${hashes.size} images hashed)`,
+    );
+    for (const cluster of clusters) {
+      console.log(`\n  ${cluster.ids.map((member) => `#${member} ${names.get(member)}`).join(' · ')}`);
+      for (const pair of cluster.pairs) {
+        console.log(`    #${pair.a} ~ #${pair.b}: ${describePair(pair)}`);
+      }
+    }
+  }
+
+  if (options.check && clusters.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { formatCatalogIssue, validateCatalog } from '../lib/catalog';
+import { extractorId } from '../lib/extractors';
+import { selectCatalogExtractor } from '../lib/imageMatching';
+
+const main = async () => {
+  const catalogPath = process.argv[2] ?? path.join('public', 'products.json');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(catalogPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Unable to read ${catalogPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const { products, issues } = validateCatalog(raw);
+  if (issues.length > 0) {
+    console.error(`${catalogPath}: ${issues.length} issue(s)`);
+    issues.forEach((issue) => console.error(formatCatalogIssue(issue)));
+    process.exitCode = 1;
+    return;
+  }
+
+  // Every entry can be valid on its own yet still leave the matcher without a common feature space.
+  const extractor = selectCatalogExtractor(products.map((product) => product.embeddings));
+  if (!extractor) {
+    console.error(`${catalogPath}: no registered extractor has a vector for every product`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`${catalogPath}: ${products.length} products OK (matching with ${extractorId(extractor)})`);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,24 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// Image sources shared by the catalog scripts: a local directory of <id>.<ext> files, or the product's own URL.
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+
+export const findLocalImage = async (imagesDir: string, id: number, files: Set<string>) => {
+  for (const extension of IMAGE_EXTENSIONS) {
+    const fileName = `${id}${extension}`;
+    if (files.has(fileName)) {
+      return readFile(path.join(imagesDir, fileName));
+    }
+  }
+  return null;
+};
+
+export const fetchRemoteImage = async (url: string) => {
+  const response = await fetch(url, { redirect: 'follow' });
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+};